@@ -1,196 +1,116 @@
 /**
  * Example Cloudflare Worker with OpenAuth Integration
  * 
- * This example shows how to protect API routes using the OpenAuth middleware
- * and demonstrates role-based access control.
+ * This example shows how to protect API routes using the OpenAuth router
+ * and demonstrates role- and permission-based access control.
  */
 
-import {
-  requireAuth,
-  requireRole,
-  optionalAuth,
-  createProtectedHandler,
-  createRoleProtectedHandler,
-  createOptionalAuthHandler,
-  handleCors,
-  addCorsHeaders,
-  applyRateLimit,
-  RateLimiter
-} from '../../src/middleware/auth';
+import { RateLimiter } from '../../src/middleware/auth';
+import { createRouter, type RouterContext } from '../../src/middleware/router';
 
 // Environment interface
 interface Env {
   AUTH_SERVER_URL: string;
+  CLIENT_ID: string; // This API's OAuth client; tokens issued to other clients are refused
   // Add other environment variables as needed
 }
 
-// Rate limiter instance
-const rateLimiter = new RateLimiter(100, 60000); // 100 requests per minute
+type Context = RouterContext<Env>;
+
+// Every route declares who may call it; the router handles CORS, rate
+// limiting (100 requests per minute) and JSON errors for 401/403/404/405
+const router = createRouter<Env>({
+  auth: env => ({ authServerUrl: env.AUTH_SERVER_URL, audience: env.CLIENT_ID }),
+  rateLimiter: new RateLimiter(100, 60000)
+});
+
+router
+  // Public endpoints (no authentication required)
+  .get('/api/public/products', 'public', handleGetProducts, 'List products')
+  .get('/api/public/products/:id', 'public', handleGetProduct, 'Get a product')
+  .get('/api/public/categories', 'public', handleGetCategories, 'List categories')
+
+  // Protected endpoints (authentication required)
+  .get('/api/protected/profile', 'authenticated', handleGetProfile, 'Current user profile with addresses')
+  .get('/api/protected/orders', 'authenticated', handleGetOrders, "Current user's orders")
+  .add({
+    method: ['GET', 'POST'],
+    path: '/api/protected/cart',
+    auth: 'authenticated',
+    description: 'Read or add to the cart',
+    handler: handleCartOperations
+  })
+
+  // Admin endpoints (admin role required)
+  .get('/api/admin/users', { role: 'admin' }, handleAdminUsers, 'List users')
+  .get('/api/admin/orders', { permission: 'orders:read' }, handleAdminOrders, 'List all orders')
+  .get('/api/admin/analytics', { role: 'admin' }, handleAdminAnalytics, 'Sales analytics')
+
+  // Optional auth endpoints (attach user if authenticated)
+  .get('/api/optional/recommendations', 'optional', handleRecommendations, 'Product recommendations')
+  .get('/api/optional/wishlist', 'optional', handleWishlist, "Current user's wishlist")
+
+  // Health check and route listing
+  .add({
+    method: 'GET',
+    path: '/health',
+    auth: 'public',
+    rateLimiter: false,
+    handler: () => Response.json({ status: 'healthy', timestamp: new Date().toISOString() })
+  })
+  .get('/api/routes', 'public', () => Response.json({ routes: router.routes() }), 'List API routes');
 
 // Main worker handler
 export default {
-  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    // Handle CORS preflight
-    const corsResponse = handleCors(request);
-    if (corsResponse) return corsResponse;
-
-    // Apply rate limiting
-    const rateLimitResponse = applyRateLimit(request, rateLimiter);
-    if (rateLimitResponse) return rateLimitResponse;
-
-    const url = new URL(request.url);
-    const path = url.pathname;
-
-    try {
-      // Public endpoints (no authentication required)
-      if (path.startsWith('/api/public/')) {
-        return handlePublicRequest(request, env);
-      }
-
-      // Protected endpoints (authentication required)
-      if (path.startsWith('/api/protected/')) {
-        return handleProtectedRequest(request, env);
-      }
-
-      // Admin endpoints (admin role required)
-      if (path.startsWith('/api/admin/')) {
-        return handleAdminRequest(request, env);
-      }
-
-      // Optional auth endpoints (attach user if authenticated)
-      if (path.startsWith('/api/optional/')) {
-        return handleOptionalAuthRequest(request, env);
-      }
-
-      // Health check endpoint
-      if (path === '/health') {
-        return new Response(JSON.stringify({ 
-          status: 'healthy', 
-          timestamp: new Date().toISOString() 
-        }), {
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
-
-      return new Response('Not Found', { status: 404 });
-    } catch (error) {
-      console.error('Worker error:', error);
-      return new Response(JSON.stringify({ 
-        error: 'Internal Server Error' 
-      }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
-  }
+  fetch: router.fetch
 } satisfies ExportedHandler<Env>;
 
-// Public endpoints handler
-async function handlePublicRequest(request: Request, env: Env): Promise<Response> {
-  const url = new URL(request.url);
-  const path = url.pathname;
-
-  switch (path) {
-    case '/api/public/products':
-      return handleGetProducts(request, env);
-    
-    case '/api/public/categories':
-      return handleGetCategories(request, env);
-    
-    default:
-      return new Response('Not Found', { status: 404 });
-  }
-}
-
-// Protected endpoints handler
-async function handleProtectedRequest(request: Request, env: Env): Promise<Response> {
-  const url = new URL(request.url);
-  const path = url.pathname;
-
-  // Create protected handlers
-  const handlers = {
-    '/api/protected/profile': createProtectedHandler(handleGetProfile, env.AUTH_SERVER_URL),
-    '/api/protected/orders': createProtectedHandler(handleGetOrders, env.AUTH_SERVER_URL),
-    '/api/protected/cart': createProtectedHandler(handleCartOperations, env.AUTH_SERVER_URL),
-  };
-
-  const handler = handlers[path as keyof typeof handlers];
-  if (handler) {
-    return handler(request, env);
-  }
-
-  return new Response('Not Found', { status: 404 });
-}
-
-// Admin endpoints handler
-async function handleAdminRequest(request: Request, env: Env): Promise<Response> {
-  const url = new URL(request.url);
-  const path = url.pathname;
-
-  // Create admin-protected handlers
-  const handlers = {
-    '/api/admin/users': createRoleProtectedHandler(handleAdminUsers, env.AUTH_SERVER_URL, 'admin'),
-    '/api/admin/orders': createRoleProtectedHandler(handleAdminOrders, env.AUTH_SERVER_URL, 'admin'),
-    '/api/admin/analytics': createRoleProtectedHandler(handleAdminAnalytics, env.AUTH_SERVER_URL, 'admin'),
-  };
-
-  const handler = handlers[path as keyof typeof handlers];
-  if (handler) {
-    return handler(request, env);
-  }
+// Handler implementations
 
-  return new Response('Not Found', { status: 404 });
+// Public endpoints
+const products = [
+  { id: 1, name: 'Product 1', price: 29.99, category: 'electronics' },
+  { id: 2, name: 'Product 2', price: 19.99, category: 'clothing' },
+  { id: 3, name: 'Product 3', price: 39.99, category: 'home' }
+];
+
+async function handleGetProducts(request: Request): Promise<Response> {
+  return new Response(JSON.stringify({ products }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
 }
 
-// Optional auth endpoints handler
-async function handleOptionalAuthRequest(request: Request, env: Env): Promise<Response> {
-  const url = new URL(request.url);
-  const path = url.pathname;
-
-  // Create optional auth handlers
-  const handlers = {
-    '/api/optional/recommendations': createOptionalAuthHandler(handleRecommendations, env.AUTH_SERVER_URL),
-    '/api/optional/wishlist': createOptionalAuthHandler(handleWishlist, env.AUTH_SERVER_URL),
-  };
-
-  const handler = handlers[path as keyof typeof handlers];
-  if (handler) {
-    return handler(request, env);
+async function handleGetProduct(request: Request, { params }: Context): Promise<Response> {
+  const product = products.find(product => product.id === Number(params.id));
+  if (!product) {
+    return Response.json({ error: 'Product not found' }, { status: 404 });
   }
 
-  return new Response('Not Found', { status: 404 });
+  return Response.json({ product });
 }
 
-// Handler implementations
-
-// Public endpoints
-async function handleGetProducts(request: Request, env: Env): Promise<Response> {
-  const products = [
-    { id: 1, name: 'Product 1', price: 29.99, category: 'electronics' },
-    { id: 2, name: 'Product 2', price: 19.99, category: 'clothing' },
-    { id: 3, name: 'Product 3', price: 39.99, category: 'home' }
-  ];
-
-  return addCorsHeaders(new Response(JSON.stringify({ products }), {
-    headers: { 'Content-Type': 'application/json' }
-  }));
-}
-
-async function handleGetCategories(request: Request, env: Env): Promise<Response> {
+async function handleGetCategories(request: Request): Promise<Response> {
   const categories = [
     { id: 1, name: 'Electronics', slug: 'electronics' },
     { id: 2, name: 'Clothing', slug: 'clothing' },
     { id: 3, name: 'Home & Garden', slug: 'home' }
   ];
 
-  return addCorsHeaders(new Response(JSON.stringify({ categories }), {
+  return new Response(JSON.stringify({ categories }), {
     headers: { 'Content-Type': 'application/json' }
-  }));
+  });
 }
 
 // Protected endpoints
-async function handleGetProfile(request: Request, user: any, env: Env): Promise<Response> {
-  // In a real app, you might fetch additional profile data from your database
+async function handleGetProfile(request: Request, { user, env }: Context): Promise<Response> {
+  // Addresses live on the auth server; forward the caller's token to read them
+  const addressResponse = await fetch(`${env.AUTH_SERVER_URL}/addresses`, {
+    headers: { 'Authorization': request.headers.get('Authorization') || '' }
+  });
+  const { addresses } = addressResponse.ok
+    ? await addressResponse.json<{ addresses: unknown[] }>()
+    : { addresses: [] };
+
   const profile = {
     ...user,
     preferences: {
@@ -198,30 +118,20 @@ async function handleGetProfile(request: Request, user: any, env: Env): Promise<
       notifications: true,
       theme: 'light'
     },
-    addresses: [
-      {
-        id: 1,
-        type: 'billing',
-        street: '123 Main St',
-        city: 'Anytown',
-        state: 'CA',
-        zipCode: '12345',
-        country: 'US'
-      }
-    ]
+    addresses
   };
 
-  return addCorsHeaders(new Response(JSON.stringify({ profile }), {
+  return new Response(JSON.stringify({ profile }), {
     headers: { 'Content-Type': 'application/json' }
-  }));
+  });
 }
 
-async function handleGetOrders(request: Request, user: any, env: Env): Promise<Response> {
+async function handleGetOrders(request: Request, { user, env }: Context): Promise<Response> {
   // Mock orders data
   const orders = [
     {
       id: 'order-1',
-      userId: user.id,
+      userId: user!.id,
       status: 'completed',
       total: 99.98,
       items: [
@@ -232,7 +142,7 @@ async function handleGetOrders(request: Request, user: any, env: Env): Promise<R
     },
     {
       id: 'order-2',
-      userId: user.id,
+      userId: user!.id,
       status: 'pending',
       total: 49.99,
       items: [
@@ -242,12 +152,12 @@ async function handleGetOrders(request: Request, user: any, env: Env): Promise<R
     }
   ];
 
-  return addCorsHeaders(new Response(JSON.stringify({ orders }), {
+  return new Response(JSON.stringify({ orders }), {
     headers: { 'Content-Type': 'application/json' }
-  }));
+  });
 }
 
-async function handleCartOperations(request: Request, user: any, env: Env): Promise<Response> {
+async function handleCartOperations(request: Request, { user, env }: Context): Promise<Response> {
   const method = request.method;
   
   if (method === 'GET') {
@@ -257,9 +167,9 @@ async function handleCartOperations(request: Request, user: any, env: Env): Prom
       { productId: 3, quantity: 1, price: 39.99 }
     ];
     
-    return addCorsHeaders(new Response(JSON.stringify({ cart }), {
+    return new Response(JSON.stringify({ cart }), {
       headers: { 'Content-Type': 'application/json' }
-    }));
+    });
   }
   
   if (method === 'POST') {
@@ -267,26 +177,26 @@ async function handleCartOperations(request: Request, user: any, env: Env): Prom
     const body = await request.json();
     // In a real app, you'd save this to a database
     const cartItem = {
-      userId: user.id,
+      userId: user!.id,
       productId: body.productId,
       quantity: body.quantity,
       addedAt: new Date().toISOString()
     };
     
-    return addCorsHeaders(new Response(JSON.stringify({ 
+    return new Response(JSON.stringify({ 
       message: 'Item added to cart',
       item: cartItem 
     }), {
       status: 201,
       headers: { 'Content-Type': 'application/json' }
-    }));
+    });
   }
   
   return new Response('Method not allowed', { status: 405 });
 }
 
 // Admin endpoints
-async function handleAdminUsers(request: Request, user: any, env: Env): Promise<Response> {
+async function handleAdminUsers(request: Request, { user, env }: Context): Promise<Response> {
   // Mock admin user management
   const users = [
     { id: 'user-1', email: 'user1@example.com', role: 'customer', createdAt: '2024-01-01' },
@@ -294,15 +204,15 @@ async function handleAdminUsers(request: Request, user: any, env: Env): Promise<
     { id: 'user-3', email: 'admin@example.com', role: 'admin', createdAt: '2024-01-03' }
   ];
 
-  return addCorsHeaders(new Response(JSON.stringify({ 
+  return new Response(JSON.stringify({ 
     users,
-    admin: user.email 
+    admin: user!.email 
   }), {
     headers: { 'Content-Type': 'application/json' }
-  }));
+  });
 }
 
-async function handleAdminOrders(request: Request, user: any, env: Env): Promise<Response> {
+async function handleAdminOrders(request: Request, { user, env }: Context): Promise<Response> {
   // Mock admin order management
   const orders = [
     { id: 'order-1', userId: 'user-1', status: 'completed', total: 99.98 },
@@ -310,16 +220,16 @@ async function handleAdminOrders(request: Request, user: any, env: Env): Promise
     { id: 'order-3', userId: 'user-1', status: 'shipped', total: 79.97 }
   ];
 
-  return addCorsHeaders(new Response(JSON.stringify({ 
+  return new Response(JSON.stringify({ 
     orders,
     totalOrders: orders.length,
     totalRevenue: orders.reduce((sum, order) => sum + order.total, 0)
   }), {
     headers: { 'Content-Type': 'application/json' }
-  }));
+  });
 }
 
-async function handleAdminAnalytics(request: Request, user: any, env: Env): Promise<Response> {
+async function handleAdminAnalytics(request: Request, { user, env }: Context): Promise<Response> {
   // Mock admin analytics
   const analytics = {
     totalUsers: 1250,
@@ -336,13 +246,13 @@ async function handleAdminAnalytics(request: Request, user: any, env: Env): Prom
     }
   };
 
-  return addCorsHeaders(new Response(JSON.stringify({ analytics }), {
+  return new Response(JSON.stringify({ analytics }), {
     headers: { 'Content-Type': 'application/json' }
-  }));
+  });
 }
 
 // Optional auth endpoints
-async function handleRecommendations(request: Request, user: any, env: Env): Promise<Response> {
+async function handleRecommendations(request: Request, { user, env }: Context): Promise<Response> {
   // Personalized recommendations if user is authenticated
   let recommendations;
   
@@ -358,22 +268,22 @@ async function handleRecommendations(request: Request, user: any, env: Env): Pro
     ];
   }
 
-  return addCorsHeaders(new Response(JSON.stringify({ 
+  return new Response(JSON.stringify({ 
     recommendations,
     personalized: !!user 
   }), {
     headers: { 'Content-Type': 'application/json' }
-  }));
+  });
 }
 
-async function handleWishlist(request: Request, user: any, env: Env): Promise<Response> {
+async function handleWishlist(request: Request, { user, env }: Context): Promise<Response> {
   if (!user) {
-    return addCorsHeaders(new Response(JSON.stringify({ 
+    return new Response(JSON.stringify({ 
       message: 'Please login to manage your wishlist' 
     }), {
       status: 401,
       headers: { 'Content-Type': 'application/json' }
-    }));
+    });
   }
 
   // Mock wishlist data
@@ -382,7 +292,7 @@ async function handleWishlist(request: Request, user: any, env: Env): Promise<Re
     { id: 7, name: 'Wishlist Item 2', price: 129.99, addedAt: '2024-01-18' }
   ];
 
-  return addCorsHeaders(new Response(JSON.stringify({ wishlist }), {
+  return new Response(JSON.stringify({ wishlist }), {
     headers: { 'Content-Type': 'application/json' }
-  }));
+  });
 }
@@ -0,0 +1,37 @@
+-- Migration number: 0004 	 2026-10-19T09:12:44.381Z
+-- Create role and permission tables for role-based access control
+
+-- Roles referenced by user.role; parent_role forms the inheritance hierarchy
+CREATE TABLE IF NOT EXISTS roles (
+    name TEXT PRIMARY KEY NOT NULL,
+    parent_role TEXT,
+    description TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (parent_role) REFERENCES roles(name) ON DELETE SET NULL
+);
+
+-- Permissions granted directly to a role (e.g. 'orders:refund', 'orders:*', '*')
+CREATE TABLE IF NOT EXISTS role_permissions (
+    role TEXT NOT NULL,
+    permission TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (role, permission),
+    FOREIGN KEY (role) REFERENCES roles(name) ON DELETE CASCADE
+);
+
+-- Seed the default hierarchy: admin > vendor > customer
+INSERT OR IGNORE INTO roles (name, parent_role, description) VALUES
+    ('customer', NULL, 'Shopper with access to their own account and orders'),
+    ('vendor', 'customer', 'Seller managing their own products and orders'),
+    ('admin', 'vendor', 'Marketplace administrator');
+
+INSERT OR IGNORE INTO role_permissions (role, permission) VALUES
+    ('customer', 'profile:read'),
+    ('customer', 'profile:write'),
+    ('customer', 'orders:read'),
+    ('customer', 'orders:create'),
+    ('vendor', 'products:write'),
+    ('vendor', 'orders:fulfill'),
+    ('admin', '*');
+
+CREATE INDEX IF NOT EXISTS idx_role_permissions_role ON role_permissions(role);
@@ -0,0 +1,6 @@
+-- Migration number: 0005 	 2026-10-19T10:03:27.529Z
+-- Track revoked sessions so tokens bound to them are rejected
+
+ALTER TABLE user_sessions ADD COLUMN revoked_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_active ON user_sessions(user_id, revoked_at, expires_at);
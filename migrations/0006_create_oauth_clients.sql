@@ -0,0 +1,14 @@
+-- Migration number: 0006 	 2026-10-19T11:20:05.118Z
+-- Registered OAuth clients allowed to use the issuer
+
+CREATE TABLE IF NOT EXISTS oauth_clients (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    client_type TEXT NOT NULL CHECK (client_type IN ('public', 'confidential')),
+    redirect_uris TEXT NOT NULL DEFAULT '[]', -- JSON array of exact redirect URIs
+    grant_types TEXT NOT NULL DEFAULT '["authorization_code","refresh_token"]', -- JSON array
+    secret_hash TEXT, -- SHA-256 hex of the client secret, confidential clients only
+    disabled_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,9 @@
+-- Migration number: 0007 	 2026-10-19T19:05:12.318Z
+-- Account status so suspended, deactivated and deleting users can be refused
+
+ALTER TABLE user ADD COLUMN status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'suspended', 'deactivated', 'pending_deletion'));
+ALTER TABLE user ADD COLUMN status_reason TEXT;
+ALTER TABLE user ADD COLUMN status_changed_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_user_status ON user(status);
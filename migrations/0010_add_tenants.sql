@@ -0,0 +1,163 @@
+-- Migration number: 0010 	 2026-10-19T21:08:51.377Z
+-- Tenants, so one issuer serves several storefront brands with separate
+-- themes, providers, clients and users
+
+CREATE TABLE IF NOT EXISTS tenants (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    app_name TEXT, -- Overrides APP_NAME
+    theme TEXT, -- JSON, merged over THEME
+    providers TEXT, -- JSON array of enabled social providers; NULL enables every configured one
+    disabled_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Request hosts that resolve to each tenant
+CREATE TABLE IF NOT EXISTS tenant_hostnames (
+    hostname TEXT PRIMARY KEY NOT NULL, -- Lowercase, without port
+    tenant_id TEXT NOT NULL,
+    FOREIGN KEY (tenant_id) REFERENCES tenants(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_hostnames_tenant_id ON tenant_hostnames(tenant_id);
+
+-- Hosts with no tenant of their own, and everything that existed before tenants
+INSERT OR IGNORE INTO tenants (id, name) VALUES ('default', 'Default');
+
+-- Emails are unique per tenant rather than globally, which SQLite can only
+-- change by rebuilding the table. Dropping user would cascade into the tables
+-- that reference it, so those are set aside and rebuilt around it.
+PRAGMA defer_foreign_keys = true;
+
+CREATE TABLE user_addresses_backup AS SELECT * FROM user_addresses;
+CREATE TABLE user_sessions_backup AS SELECT * FROM user_sessions;
+CREATE TABLE user_identities_backup AS SELECT * FROM user_identities;
+
+DROP TABLE user_addresses;
+DROP TABLE user_sessions;
+DROP TABLE user_identities;
+
+CREATE TABLE user_new (
+    id TEXT PRIMARY KEY NOT NULL DEFAULT (lower(hex(randomblob(16)))),
+    tenant_id TEXT NOT NULL DEFAULT 'default',
+    email TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    first_name TEXT,
+    last_name TEXT,
+    phone TEXT,
+    role TEXT DEFAULT 'customer',
+    avatar_url TEXT,
+    last_login TIMESTAMP,
+    status TEXT NOT NULL DEFAULT 'active'
+        CHECK (status IN ('active', 'suspended', 'deactivated', 'pending_deletion')),
+    status_reason TEXT,
+    status_changed_at TIMESTAMP,
+    FOREIGN KEY (tenant_id) REFERENCES tenants(id),
+    UNIQUE (tenant_id, email)
+);
+
+INSERT INTO user_new (
+    id, email, created_at, first_name, last_name, phone, role, avatar_url, last_login,
+    status, status_reason, status_changed_at
+)
+SELECT
+    id, email, created_at, first_name, last_name, phone, role, avatar_url, last_login,
+    status, status_reason, status_changed_at
+FROM user;
+
+DROP TABLE user;
+ALTER TABLE user_new RENAME TO user;
+
+CREATE INDEX IF NOT EXISTS idx_user_role ON user(role);
+CREATE INDEX IF NOT EXISTS idx_user_email ON user(email);
+CREATE INDEX IF NOT EXISTS idx_user_status ON user(status);
+
+CREATE TABLE user_addresses (
+    id TEXT PRIMARY KEY NOT NULL DEFAULT (lower(hex(randomblob(16)))),
+    tenant_id TEXT NOT NULL DEFAULT 'default', -- Copied from the user
+    user_id TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('billing', 'shipping')),
+    first_name TEXT NOT NULL,
+    last_name TEXT NOT NULL,
+    company TEXT,
+    address_line_1 TEXT NOT NULL,
+    address_line_2 TEXT,
+    city TEXT NOT NULL,
+    state TEXT NOT NULL,
+    postal_code TEXT NOT NULL,
+    country TEXT NOT NULL DEFAULT 'US',
+    phone TEXT,
+    is_default BOOLEAN DEFAULT false,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+);
+
+INSERT INTO user_addresses (
+    id, user_id, type, first_name, last_name, company, address_line_1, address_line_2,
+    city, state, postal_code, country, phone, is_default, created_at, updated_at
+)
+SELECT
+    id, user_id, type, first_name, last_name, company, address_line_1, address_line_2,
+    city, state, postal_code, country, phone, is_default, created_at, updated_at
+FROM user_addresses_backup;
+
+CREATE TABLE user_sessions (
+    id TEXT PRIMARY KEY NOT NULL DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL,
+    session_token TEXT UNIQUE NOT NULL,
+    device_info TEXT,
+    ip_address TEXT,
+    user_agent TEXT,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_activity TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    revoked_at TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+);
+
+INSERT INTO user_sessions (
+    id, user_id, session_token, device_info, ip_address, user_agent, expires_at,
+    created_at, last_activity, revoked_at
+)
+SELECT
+    id, user_id, session_token, device_info, ip_address, user_agent, expires_at,
+    created_at, last_activity, revoked_at
+FROM user_sessions_backup;
+
+-- Provider subjects are unique per tenant, so the same social account can
+-- hold a separate user in each brand
+CREATE TABLE user_identities (
+    id TEXT PRIMARY KEY NOT NULL DEFAULT (lower(hex(randomblob(16)))),
+    tenant_id TEXT NOT NULL DEFAULT 'default',
+    user_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    provider_subject TEXT NOT NULL,
+    email TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE,
+    UNIQUE (tenant_id, provider, provider_subject)
+);
+
+INSERT INTO user_identities (id, user_id, provider, provider_subject, email, created_at, last_used_at)
+SELECT id, user_id, provider, provider_subject, email, created_at, last_used_at FROM user_identities_backup;
+
+DROP TABLE user_addresses_backup;
+DROP TABLE user_sessions_backup;
+DROP TABLE user_identities_backup;
+
+CREATE INDEX IF NOT EXISTS idx_user_addresses_user_id ON user_addresses(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_addresses_type ON user_addresses(type);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_token ON user_sessions(session_token);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_expires ON user_sessions(expires_at);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_active ON user_sessions(user_id, revoked_at, expires_at);
+CREATE INDEX IF NOT EXISTS idx_user_identities_user_id ON user_identities(user_id);
+
+ALTER TABLE oauth_clients ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default';
+CREATE INDEX IF NOT EXISTS idx_oauth_clients_tenant_id ON oauth_clients(tenant_id);
+
+ALTER TABLE audit_log ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default';
+CREATE INDEX IF NOT EXISTS idx_audit_log_tenant ON audit_log(tenant_id, created_at);
@@ -0,0 +1,23 @@
+-- Migration number: 0011 	 2026-10-19T22:41:06.529Z
+-- TOTP authenticators and recovery codes for multi-factor sign-in
+
+CREATE TABLE IF NOT EXISTS user_mfa (
+    user_id TEXT PRIMARY KEY NOT NULL,
+    totp_secret TEXT NOT NULL, -- Base32
+    confirmed_at TIMESTAMP, -- NULL until the user enters a first valid code
+    last_used_step INTEGER, -- Time step of the last accepted code, so codes cannot be replayed
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS user_recovery_codes (
+    id TEXT PRIMARY KEY NOT NULL DEFAULT (lower(hex(randomblob(16)))),
+    user_id TEXT NOT NULL,
+    code_hash TEXT NOT NULL, -- SHA-256 hex of the normalized code
+    used_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_recovery_codes_user_id ON user_recovery_codes(user_id, code_hash);
@@ -0,0 +1,8 @@
+-- Migration number: 0012 	 2026-10-20T09:12:37.418Z
+-- Whether the provider verified an identity's email. Sign-ins only link to
+-- an existing account by email when one of its identities is verified.
+
+ALTER TABLE user_identities ADD COLUMN email_verified INTEGER NOT NULL DEFAULT 0;
+
+-- The password provider verifies the address with a code before registering
+UPDATE user_identities SET email_verified = 1 WHERE provider = 'password';
@@ -3,10 +3,16 @@
  * Easy integration for frontend applications
  */
 
+import { generateCodeVerifier, generateCodeChallenge, generateSecureState, getTimeUntilExpiration } from './helpers/token-validation';
+
 // Browser environment detection
 declare const window: any;
 declare const localStorage: any;
+declare const sessionStorage: any;
+declare const indexedDB: any;
 declare const document: any;
+declare const navigator: any;
+declare const BroadcastChannel: any;
 
 export interface User {
   id: string;
@@ -17,6 +23,32 @@ export interface User {
   role?: string;
 }
 
+export interface Address {
+  id: string;
+  type: 'billing' | 'shipping';
+  first_name: string;
+  last_name: string;
+  company: string | null;
+  address_line_1: string;
+  address_line_2: string | null;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  phone: string | null;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AddressInput = Omit<Address, 'id' | 'is_default' | 'created_at' | 'updated_at' | 'company' | 'address_line_2' | 'phone' | 'country'> & {
+  company?: string | null;
+  address_line_2?: string | null;
+  phone?: string | null;
+  country?: string;
+  is_default?: boolean;
+};
+
 export interface AuthTokens {
   access_token: string;
   refresh_token: string;
@@ -24,40 +56,821 @@ export interface AuthTokens {
   token_type: string;
 }
 
+/**
+ * Key-value storage for tokens, user data and login state.
+ * Implementations may be synchronous or asynchronous.
+ */
+export interface TokenStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export type TokenStorageOption = 'memory' | 'sessionStorage' | 'localStorage' | TokenStorage;
+
 export interface AuthConfig {
   authServerUrl: string;
   clientId: string;
   redirectUri: string;
   scope?: string;
+  pkce?: boolean; // Use PKCE (S256) for the authorization code flow, default true
+  storage?: TokenStorageOption; // Where tokens and user data live, default 'localStorage'
+  transientStorage?: TokenStorageOption; // Where login state and PKCE verifiers live, default 'sessionStorage'
+  refreshRetries?: number; // Retries for transient refresh failures, default 3
+  refreshRetryDelayMs?: number; // Base backoff delay between retries, default 500
+  autoRefresh?: boolean; // Refresh ahead of expiry in the background, default true
+  refreshSkewMs?: number; // How long before expiry to refresh, default 60000
+  syncTabs?: boolean; // Share login/logout/refresh between tabs, default true
+}
+
+export type AuthChangeListener = (user: User | null, authenticated: boolean) => void;
+
+// Codes the issuer uses when it refuses a suspended, deactivated or deleting account
+export const ACCOUNT_STATUS_ERROR_CODES = ['ACCOUNT_SUSPENDED', 'ACCOUNT_DEACTIVATED', 'ACCOUNT_PENDING_DELETION'];
+
+/**
+ * Why the last sign-in, refresh or request was refused
+ */
+export interface AuthErrorInfo {
+  error: string; // OAuth error, e.g. access_denied or invalid_grant
+  code?: string; // Issuer error code, e.g. ACCOUNT_SUSPENDED
+  description?: string;
+}
+
+/**
+ * A sign-in, token refresh or request the issuer refused. Subclasses say
+ * what the app should do about it; `code` carries the issuer's exact reason.
+ */
+export class AuthError extends Error implements AuthErrorInfo {
+  readonly error: string;
+  readonly code?: string;
+  readonly description?: string;
+  readonly status?: number; // HTTP status, when the error came from a response
+
+  constructor(info: AuthErrorInfo, status?: number) {
+    super(info.description || info.code || info.error);
+    this.name = new.target.name;
+    this.error = info.error;
+    this.code = info.code;
+    this.description = info.description;
+    this.status = status;
+  }
+}
+
+/**
+ * There are no tokens, or the request carried none; sign in
+ */
+export class NotAuthenticatedError extends AuthError {}
+
+/**
+ * The tokens or the session behind them are no longer valid; sign in again
+ */
+export class SessionExpiredError extends AuthError {}
+
+/**
+ * The account is suspended, deactivated or pending deletion
+ */
+export class AccountBlockedError extends AuthError {}
+
+/**
+ * The user is signed in but lacks the role or permission in `scope`
+ */
+export class InsufficientScopeError extends AuthError {
+  readonly scope?: string;
+
+  constructor(info: AuthErrorInfo, status?: number, scope?: string) {
+    super(info, status);
+    this.scope = scope;
+  }
+}
+
+/**
+ * The request needs a sign-in with a second factor; call login() again so the
+ * user completes it. Refreshing the tokens does not help.
+ */
+export class MfaRequiredError extends AuthError {}
+
+/**
+ * Too many requests; try again after `retryAfter` seconds
+ */
+export class RateLimitedError extends AuthError {
+  readonly retryAfter?: number;
+
+  constructor(info: AuthErrorInfo, status?: number, retryAfter?: number) {
+    super(info, status);
+    this.retryAfter = retryAfter;
+  }
+}
+
+const SESSION_ERROR_CODES = ['INVALID_TOKEN', 'TOKEN_EXPIRED', 'SESSION_REVOKED', 'USER_NOT_FOUND', 'TENANT_MISMATCH'];
+
+/**
+ * Pick the error class for an issuer error
+ */
+function createAuthError(
+  info: AuthErrorInfo,
+  details: { status?: number; scope?: string; retryAfter?: number } = {}
+): AuthError {
+  const { status, scope, retryAfter } = details;
+  if (info.code && ACCOUNT_STATUS_ERROR_CODES.includes(info.code)) {
+    return new AccountBlockedError(info, status);
+  }
+  if (info.code === 'RATE_LIMITED' || status === 429) {
+    return new RateLimitedError(info, status, retryAfter);
+  }
+  if (info.error === 'insufficient_scope' || info.code?.startsWith('INSUFFICIENT_')) {
+    return new InsufficientScopeError(info, status, scope);
+  }
+  if (info.code === 'MISSING_TOKEN') {
+    return new NotAuthenticatedError(info, status);
+  }
+  if (info.error === 'insufficient_user_authentication' || info.code === 'MFA_REQUIRED') {
+    return new MfaRequiredError(info, status);
+  }
+  if (
+    info.error === 'invalid_token' ||
+    info.error === 'invalid_grant' ||
+    (info.code && SESSION_ERROR_CODES.includes(info.code))
+  ) {
+    return new SessionExpiredError(info, status);
+  }
+  return new AuthError(info, status);
+}
+
+/**
+ * Read an OAuth error from a /token response body or callback parameters. Login
+ * refusals carry the code as a prefix of the description ("CODE: message").
+ */
+function parseAuthError(body: any, status?: number): AuthError {
+  const description: string | undefined = body?.error_description ?? undefined;
+  const prefixed = description?.match(/^([A-Z_]+): (.*)$/);
+  return createAuthError({
+    error: body?.error || 'unknown_error',
+    code: body?.code ?? prefixed?.[1],
+    description: prefixed ? prefixed[2] : description
+  }, { status });
+}
+
+/**
+ * Read the typed error from a refused API response, using the RFC 6750
+ * WWW-Authenticate challenge and the JSON problem body
+ */
+export async function readAuthError(response: Response): Promise<AuthError> {
+  const challenge: Record<string, string> = {};
+  const header = response.headers.get('WWW-Authenticate') || '';
+  for (const [, name, value] of header.matchAll(/(\w+)="((?:[^"\\]|\\.)*)"/g)) {
+    challenge[name] = value.replace(/\\(.)/g, '$1');
+  }
+
+  const body: any = await response.json().catch(() => null);
+  const retryAfter = Number(response.headers.get('Retry-After') ?? body?.retryAfter);
+
+  return createAuthError({
+    error: challenge.error || (response.status === 429 ? 'rate_limited' : 'access_denied'),
+    code: body?.code,
+    description: challenge.error_description || body?.detail || body?.error
+  }, {
+    status: response.status,
+    scope: challenge.scope || body?.scope,
+    retryAfter: Number.isFinite(retryAfter) ? retryAfter : undefined
+  });
+}
+
+/**
+ * State of the background refresh schedule:
+ * - idle: no tokens, or auto refresh disabled
+ * - scheduled: a refresh will run at refreshAt
+ * - paused: the page is hidden or offline; resumes on visibility/online
+ * - refreshing: a refresh is in flight
+ */
+export interface RefreshSchedule {
+  status: 'idle' | 'scheduled' | 'paused' | 'refreshing';
+  refreshAt: number | null; // Epoch ms of the next planned refresh
+  expiresAt: number | null; // Epoch ms when the current access token expires
+}
+
+export type RefreshScheduleListener = (schedule: RefreshSchedule) => void;
+
+// setTimeout delays above 2^31-1 ms overflow and fire immediately
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+const FAILED_REFRESH_RETRY_MS = 30 * 1000;
+
+/**
+ * Outcome of a token refresh:
+ * - refreshed: new tokens stored
+ * - rejected: the server refused the refresh token; the user is signed out
+ * - failed: network or server error; the existing session is kept
+ */
+export type RefreshResult = 'refreshed' | 'rejected' | 'failed';
+
+/**
+ * In-memory storage; tokens are lost on reload but never exposed to other scripts
+ */
+export class MemoryTokenStorage implements TokenStorage {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Adapter for Web Storage objects (localStorage, sessionStorage)
+ */
+export class WebTokenStorage implements TokenStorage {
+  private storage: any;
+
+  constructor(storage: any) {
+    this.storage = storage;
+  }
+
+  getItem(key: string): string | null {
+    return this.storage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.storage.removeItem(key);
+  }
+}
+
+/**
+ * Async key-value store in the shape of expo-secure-store
+ */
+export interface AsyncKeyValueStore {
+  getItemAsync(key: string): Promise<string | null>;
+  setItemAsync(key: string, value: string): Promise<void>;
+  deleteItemAsync(key: string): Promise<void>;
+}
+
+/**
+ * Adapter for async stores such as expo-secure-store or extension storage wrappers
+ */
+export class AsyncTokenStorage implements TokenStorage {
+  private store: AsyncKeyValueStore;
+
+  constructor(store: AsyncKeyValueStore) {
+    this.store = store;
+  }
+
+  getItem(key: string): Promise<string | null> {
+    return this.store.getItemAsync(key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return this.store.setItemAsync(key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.store.deleteItemAsync(key);
+  }
+}
+
+/**
+ * IndexedDB-backed storage, available in browsers, workers and extensions
+ */
+export class IndexedDBTokenStorage implements TokenStorage {
+  private dbName: string;
+  private storeName = 'tokens';
+  private db: Promise<any> | null = null;
+
+  constructor(dbName: string = 'openauth') {
+    this.dbName = dbName;
+  }
+
+  private open(): Promise<any> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async run<T>(mode: 'readonly' | 'readwrite', operation: (store: any) => any): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.run<string | undefined>('readonly', store => store.get(key));
+    return value ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+}
+
+/**
+ * Resolve a storage option, falling back to memory when Web Storage is unavailable
+ */
+function resolveTokenStorage(option: TokenStorageOption): TokenStorage {
+  if (typeof option !== 'string') return option;
+  if (option === 'localStorage' && typeof localStorage !== 'undefined') {
+    return new WebTokenStorage(localStorage);
+  }
+  if (option === 'sessionStorage' && typeof sessionStorage !== 'undefined') {
+    return new WebTokenStorage(sessionStorage);
+  }
+  return new MemoryTokenStorage();
+}
+
+/**
+ * Parse a stored JSON value, treating corrupt data as missing
+ */
+function parseStored<T>(value: string | null): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return null;
+  }
+}
+
+type SyncMessage =
+  | { type: 'tokens'; tokens?: AuthTokens; expiresAt?: number }
+  | { type: 'user'; user?: User }
+  | { type: 'logout' }
+  | { type: 'refresh-request' };
+
+const LEADER_LEASE_MS = 10 * 1000;
+const LEADER_RENEW_MS = 3 * 1000;
+const LEADER_REFRESH_TIMEOUT_MS = 5 * 1000;
+
+/**
+ * Messaging and refresh leader election between tabs of the same origin.
+ * Uses BroadcastChannel when available and falls back to `storage` events;
+ * the fallback carries no token data, so receivers re-read their storage.
+ * The leader is elected with the Web Locks API, or a localStorage lease.
+ */
+class TabSync {
+  private channel: any = null;
+  private messageKey: string;
+  private leaseKey: string;
+  private lockName: string;
+  private tabId = Math.random().toString(36).slice(2) + Date.now().toString(36);
+  private leaseTimer: ReturnType<typeof setInterval> | null = null;
+  private releaseLock: (() => void) | null = null;
+  private lockAbort: AbortController | null = null;
+  private closed = false;
+  private onMessage: (message: SyncMessage, fromStorage: boolean) => void;
+  private onLeadershipChange: () => void;
+  isLeader = false;
+
+  constructor(
+    name: string,
+    onMessage: (message: SyncMessage, fromStorage: boolean) => void,
+    onLeadershipChange: () => void
+  ) {
+    this.messageKey = `${name}:message`;
+    this.leaseKey = `${name}:leader`;
+    this.lockName = `${name}:leader`;
+    this.onMessage = onMessage;
+    this.onLeadershipChange = onLeadershipChange;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(name);
+      this.channel.onmessage = (event: any) => this.onMessage(event.data, false);
+    } else if (typeof window !== 'undefined') {
+      window.addEventListener('storage', this.handleStorage);
+    }
+
+    this.electLeader();
+  }
+
+  post(message: SyncMessage): void {
+    if (this.channel) {
+      this.channel.postMessage(message);
+      return;
+    }
+
+    if (typeof localStorage === 'undefined') return;
+    // Only the message type crosses storage; tokens never land in localStorage here
+    const notice = JSON.stringify({ type: message.type, nonce: Math.random() });
+    localStorage.setItem(this.messageKey, notice);
+    localStorage.removeItem(this.messageKey);
+  }
+
+  close(): void {
+    this.closed = true;
+    this.channel?.close();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.handleStorage);
+    }
+    if (this.leaseTimer !== null) {
+      clearInterval(this.leaseTimer);
+      if (typeof localStorage !== 'undefined' && this.readLease()?.id === this.tabId) {
+        localStorage.removeItem(this.leaseKey);
+      }
+    }
+    // Stop waiting for the lock, or give it up if this tab holds it
+    this.lockAbort?.abort();
+    this.releaseLock?.();
+    this.isLeader = false;
+  }
+
+  private handleStorage = (event: any) => {
+    if (event.key !== this.messageKey || !event.newValue) return;
+    const message = parseStored<SyncMessage>(event.newValue);
+    if (message) this.onMessage(message, true);
+  };
+
+  private setLeader(isLeader: boolean): void {
+    if (this.isLeader === isLeader) return;
+    this.isLeader = isLeader;
+    this.onLeadershipChange();
+  }
+
+  private electLeader(): void {
+    if (typeof navigator !== 'undefined' && navigator.locks?.request) {
+      // The lock is held until this tab closes, then passes to a waiting tab
+      this.lockAbort = typeof AbortController !== 'undefined' ? new AbortController() : null;
+      navigator.locks.request(this.lockName, { signal: this.lockAbort?.signal }, () => {
+        // Granted as close() ran; hand it straight on
+        if (this.closed) return;
+        this.setLeader(true);
+        return new Promise<void>(resolve => {
+          this.releaseLock = resolve;
+        });
+      }).catch(() => {
+        // Aborted by close() while waiting for the lock
+      });
+      return;
+    }
+
+    if (typeof localStorage === 'undefined') {
+      this.setLeader(true);
+      return;
+    }
+
+    const renew = () => {
+      const lease = this.readLease();
+      if (!lease || lease.expiresAt < Date.now() || lease.id === this.tabId) {
+        localStorage.setItem(this.leaseKey, JSON.stringify({
+          id: this.tabId,
+          expiresAt: Date.now() + LEADER_LEASE_MS
+        }));
+      }
+      this.setLeader(this.readLease()?.id === this.tabId);
+    };
+    renew();
+    this.leaseTimer = setInterval(renew, LEADER_RENEW_MS);
+  }
+
+  private readLease(): { id: string; expiresAt: number } | null {
+    return parseStored(localStorage.getItem(this.leaseKey));
+  }
 }
 
 export class AuthClient {
   private config: AuthConfig;
+  private storage: TokenStorage;
+  private transientStorage: TokenStorage;
   private tokenStorageKey = 'openauth_tokens';
   private userStorageKey = 'openauth_user';
+  private expiresStorageKey = 'openauth_token_expires';
+  private stateStorageKey = 'openauth_state';
+  private pkceStorageKeyPrefix = 'openauth_pkce_';
+
+  // In-memory view of storage so synchronous getters work with async backends
+  private tokens: AuthTokens | null = null;
+  private user: User | null = null;
+  private expiresAt: number | null = null;
+  private ready: Promise<void>;
+
+  // Shared by every caller while a refresh is in flight
+  private refreshInFlight: Promise<RefreshResult> | null = null;
+
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private schedule: RefreshSchedule = { status: 'idle', refreshAt: null, expiresAt: null };
+  private scheduleListeners = new Set<RefreshScheduleListener>();
+  private handleResume = () => this.scheduleRefresh();
+
+  private sync: TabSync | null = null;
+  private authListeners = new Set<AuthChangeListener>();
+  private leaderRefreshWaiters: ((result: RefreshResult) => void)[] = [];
+  private lastError: AuthError | null = null;
 
   constructor(config: AuthConfig) {
     this.config = config;
+    this.storage = resolveTokenStorage(config.storage || 'localStorage');
+    this.transientStorage = resolveTokenStorage(config.transientStorage || 'sessionStorage');
+    this.ready = this.hydrate();
+    this.start();
+  }
+
+  /**
+   * Start background refreshes and cross-tab messaging as configured. The
+   * constructor calls it; call it again to resume a client after destroy().
+   */
+  start(): void {
+    if (!this.sync && this.config.syncTabs !== false && typeof window !== 'undefined') {
+      this.sync = new TabSync(
+        `openauth:${this.config.clientId}`,
+        (message, fromStorage) => this.handleSyncMessage(message, fromStorage),
+        () => this.scheduleRefresh()
+      );
+    }
+
+    if (this.config.autoRefresh !== false) {
+      this.startAutoRefresh();
+    }
+  }
+
+  /**
+   * Stop background work and cross-tab messaging for this client. start()
+   * resumes it.
+   */
+  destroy(): void {
+    this.stopAutoRefresh();
+    this.sync?.close();
+    this.sync = null;
+  }
+
+  /**
+   * Subscribe to login, logout and user changes, including ones made in
+   * other tabs. Returns an unsubscribe function.
+   */
+  onAuthChange(listener: AuthChangeListener): () => void {
+    this.authListeners.add(listener);
+    return () => {
+      this.authListeners.delete(listener);
+    };
+  }
+
+  private notifyAuthChange(): void {
+    const authenticated = this.isAuthenticated();
+    this.authListeners.forEach(listener => listener(this.user, authenticated));
+  }
+
+  /**
+   * Apply auth state changes broadcast by another tab
+   */
+  private async handleSyncMessage(message: SyncMessage, fromStorage: boolean): Promise<void> {
+    switch (message.type) {
+      case 'tokens':
+      case 'user':
+        if (fromStorage) {
+          // Storage fallback carries no data; reload what the other tab stored
+          await this.hydrate();
+        } else if (message.type === 'tokens' && message.tokens) {
+          this.tokens = message.tokens;
+          this.expiresAt = message.expiresAt ?? null;
+        } else if (message.type === 'user' && message.user) {
+          this.user = message.user;
+        }
+        if (message.type === 'tokens') {
+          this.resolveLeaderRefresh(this.tokens ? 'refreshed' : 'failed');
+          this.scheduleRefresh();
+        }
+        this.notifyAuthChange();
+        break;
+
+      case 'logout':
+        this.tokens = null;
+        this.user = null;
+        this.expiresAt = null;
+        this.resolveLeaderRefresh('rejected');
+        this.scheduleRefresh();
+        this.notifyAuthChange();
+        break;
+
+      case 'refresh-request':
+        if (this.sync?.isLeader && this.tokens) {
+          this.refresh();
+        }
+        break;
+    }
+  }
+
+  private resolveLeaderRefresh(result: RefreshResult): void {
+    const waiters = this.leaderRefreshWaiters;
+    this.leaderRefreshWaiters = [];
+    waiters.forEach(resolve => resolve(result));
+  }
+
+  /**
+   * Ask the leader tab to refresh and wait for the broadcast result,
+   * refreshing locally if no leader answers in time
+   */
+  private requestLeaderRefresh(): Promise<RefreshResult> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.leaderRefreshWaiters = this.leaderRefreshWaiters.filter(waiter => waiter !== finish);
+        this.performRefresh().then(resolve);
+      }, LEADER_REFRESH_TIMEOUT_MS);
+
+      const finish = (result: RefreshResult) => {
+        clearTimeout(timer);
+        resolve(result);
+      };
+
+      this.leaderRefreshWaiters.push(finish);
+      this.sync!.post({ type: 'refresh-request' });
+    });
+  }
+
+  /**
+   * Begin refreshing tokens ahead of expiry. Pauses while the page is hidden
+   * or offline and resumes on visibilitychange/online events.
+   */
+  startAutoRefresh(): void {
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleResume);
+    }
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleResume);
+      window.addEventListener('offline', this.handleResume);
+    }
+    this.ready.then(() => this.scheduleRefresh());
+  }
+
+  /**
+   * Stop background refreshes and remove event listeners
+   */
+  stopAutoRefresh(): void {
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleResume);
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleResume);
+      window.removeEventListener('offline', this.handleResume);
+    }
+    this.clearRefreshTimer();
+    this.setSchedule({ status: 'idle', refreshAt: null, expiresAt: this.getAccessTokenExpiry() });
+  }
+
+  /**
+   * Current background refresh schedule, e.g. for "session expiring" prompts
+   */
+  getRefreshSchedule(): RefreshSchedule {
+    return { ...this.schedule };
+  }
+
+  /**
+   * Subscribe to refresh schedule changes. Returns an unsubscribe function.
+   */
+  onRefreshScheduleChange(listener: RefreshScheduleListener): () => void {
+    this.scheduleListeners.add(listener);
+    return () => {
+      this.scheduleListeners.delete(listener);
+    };
+  }
+
+  private setSchedule(schedule: RefreshSchedule): void {
+    this.schedule = schedule;
+    this.scheduleListeners.forEach(listener => listener({ ...schedule }));
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer !== null) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Expiry of the current access token, from its exp claim when readable
+   */
+  private getAccessTokenExpiry(): number | null {
+    if (!this.tokens) return null;
+    const remaining = getTimeUntilExpiration(this.tokens.access_token);
+    return remaining !== null ? Date.now() + remaining : this.expiresAt;
+  }
+
+  /**
+   * Plan the next background refresh from the access token's expiry
+   */
+  private scheduleRefresh(delayOverrideMs?: number): void {
+    this.clearRefreshTimer();
+    if (this.config.autoRefresh === false) return;
+
+    const expiresAt = this.getAccessTokenExpiry();
+    if (!this.tokens?.refresh_token || expiresAt === null) {
+      this.setSchedule({ status: 'idle', refreshAt: null, expiresAt });
+      return;
+    }
+
+    const skew = this.config.refreshSkewMs ?? 60 * 1000;
+    const refreshAt = delayOverrideMs !== undefined
+      ? Date.now() + delayOverrideMs
+      : expiresAt - skew;
+
+    const hidden = typeof document !== 'undefined' && document.visibilityState === 'hidden';
+    const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    if (hidden || offline) {
+      this.setSchedule({ status: 'paused', refreshAt, expiresAt });
+      return;
+    }
+
+    const delay = Math.max(0, refreshAt - Date.now());
+    this.setSchedule({ status: 'scheduled', refreshAt, expiresAt });
+
+    // Only the leader tab refreshes; followers pick up its broadcast tokens
+    if (this.sync && !this.sync.isLeader) return;
+
+    // Long-lived tokens are re-checked when the capped timer fires
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      if (delay > MAX_TIMER_DELAY_MS) {
+        this.scheduleRefresh(delayOverrideMs);
+        return;
+      }
+      this.runScheduledRefresh();
+    }, Math.min(delay, MAX_TIMER_DELAY_MS));
+  }
+
+  private async runScheduledRefresh(): Promise<void> {
+    this.setSchedule({ ...this.schedule, status: 'refreshing' });
+    const result = await this.refresh();
+
+    if (result === 'failed') {
+      this.scheduleRefresh(FAILED_REFRESH_RETRY_MS);
+    } else if (result === 'rejected') {
+      this.scheduleRefresh();
+    }
+    // 'refreshed' reschedules from storeTokens
+  }
+
+  /**
+   * Resolves once stored tokens and user data have been loaded
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  /**
+   * Load tokens and user data from storage. Synchronous backends are read
+   * immediately so getters work straight after construction.
+   */
+  private hydrate(): Promise<void> {
+    const values = [this.tokenStorageKey, this.userStorageKey, this.expiresStorageKey]
+      .map(key => this.storage.getItem(key));
+
+    const apply = ([tokens, user, expiresAt]: (string | null)[]) => {
+      this.tokens = parseStored<AuthTokens>(tokens);
+      this.user = parseStored<User>(user);
+      this.expiresAt = expiresAt ? parseInt(expiresAt) : null;
+    };
+
+    if (values.some(value => value instanceof Promise)) {
+      return Promise.all(values).then(apply).catch(error => {
+        console.error('Failed to load stored tokens:', error);
+      });
+    }
+
+    apply(values as (string | null)[]);
+    return Promise.resolve();
   }
 
   /**
    * Initiate OAuth login flow
    */
-  login(): void {
+  async login(): Promise<void> {
     if (typeof window === 'undefined') {
       throw new Error('login() can only be called in browser environment');
     }
 
-    const authUrl = `${this.config.authServerUrl}/authorize?` + 
-      new URLSearchParams({
-        client_id: this.config.clientId,
-        redirect_uri: this.config.redirectUri,
-        response_type: 'code',
-        scope: this.config.scope || 'openid profile email',
-        state: this.generateState()
-      });
+    const state = await this.generateState();
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      response_type: 'code',
+      scope: this.config.scope || 'openid profile email',
+      state
+    });
 
-    window.location.href = authUrl;
+    if (this.config.pkce !== false) {
+      const verifier = generateCodeVerifier();
+      await this.storeCodeVerifier(state, verifier);
+      params.set('code_challenge', await generateCodeChallenge(verifier));
+      params.set('code_challenge_method', 'S256');
+    }
+
+    window.location.href = `${this.config.authServerUrl}/authorize?${params}`;
   }
 
   /**
@@ -74,23 +887,36 @@ export class AuthClient {
     const error = urlParams.get('error');
 
     if (error) {
+      this.lastError = parseAuthError({
+        error,
+        error_description: urlParams.get('error_description')
+      });
       console.error('OAuth error:', error);
       return false;
     }
 
-    if (!code || !this.validateState(state)) {
+    await this.ready;
+
+    if (!code || !(await this.validateState(state))) {
       console.error('Invalid callback parameters');
       return false;
     }
 
+    const verifier = await this.takeCodeVerifier(state!);
+    if (this.config.pkce !== false && !verifier) {
+      console.error('Missing PKCE code verifier for state');
+      return false;
+    }
+
     try {
-      const tokens = await this.exchangeCodeForTokens(code);
+      const tokens = await this.exchangeCodeForTokens(code, verifier);
+      this.lastError = null;
       await this.storeTokens(tokens);
       
       // Fetch user profile
       const user = await this.getCurrentUser();
       if (user) {
-        this.storeUser(user);
+        await this.storeUser(user);
       }
       
       return true;
@@ -104,25 +930,20 @@ export class AuthClient {
    * Get current authenticated user
    */
   async getCurrentUser(): Promise<User | null> {
-    const tokens = this.getStoredTokens();
-    if (!tokens) {
+    await this.ready;
+    if (!this.getStoredTokens()) {
       return null;
     }
 
     try {
-      const response = await fetch(`${this.config.authServerUrl}/userinfo`, {
+      // authenticatedFetch refreshes and retries at most once on 401
+      const response = await this.authenticatedFetch(`${this.config.authServerUrl}/userinfo`, {
         headers: {
-          'Authorization': `Bearer ${tokens.access_token}`,
           'Content-Type': 'application/json'
         }
       });
 
       if (!response.ok) {
-        // Try to refresh token if expired
-        const refreshed = await this.refreshToken();
-        if (refreshed) {
-          return this.getCurrentUser(); // Retry with new token
-        }
         return null;
       }
 
@@ -141,11 +962,8 @@ export class AuthClient {
     if (!tokens) return false;
 
     // Check if token is expired
-    if (typeof localStorage !== 'undefined') {
-      const expiresAt = localStorage.getItem('openauth_token_expires');
-      if (expiresAt && Date.now() > parseInt(expiresAt)) {
-        return false;
-      }
+    if (this.expiresAt && Date.now() > this.expiresAt) {
+      return false;
     }
 
     return true;
@@ -154,104 +972,166 @@ export class AuthClient {
   /**
    * Logout user and clear stored data
    */
-  logout(): void {
-    if (typeof localStorage === 'undefined') return;
-    
-    localStorage.removeItem(this.tokenStorageKey);
-    localStorage.removeItem(this.userStorageKey);
-    localStorage.removeItem('openauth_token_expires');
-    localStorage.removeItem('openauth_state');
+  async logout(): Promise<void> {
+    this.tokens = null;
+    this.user = null;
+    this.expiresAt = null;
+    this.scheduleRefresh();
+    this.sync?.post({ type: 'logout' });
+    this.notifyAuthChange();
+
+    await Promise.all([
+      this.storage.removeItem(this.tokenStorageKey),
+      this.storage.removeItem(this.userStorageKey),
+      this.storage.removeItem(this.expiresStorageKey),
+      this.transientStorage.removeItem(this.stateStorageKey)
+    ]);
   }
 
   /**
    * Refresh access token using refresh token
    */
   async refreshToken(): Promise<boolean> {
+    return (await this.refresh()) === 'refreshed';
+  }
+
+  /**
+   * Refresh tokens, coalescing concurrent calls into a single request so the
+   * rotating refresh token is only spent once
+   */
+  refresh(): Promise<RefreshResult> {
+    if (!this.refreshInFlight) {
+      const pending = this.sync && !this.sync.isLeader
+        ? this.requestLeaderRefresh()
+        : this.performRefresh();
+      this.refreshInFlight = pending.finally(() => {
+        this.refreshInFlight = null;
+      });
+    }
+    return this.refreshInFlight;
+  }
+
+  /**
+   * Run the refresh request, retrying transient failures with backoff
+   */
+  private async performRefresh(): Promise<RefreshResult> {
+    await this.ready;
     const tokens = this.getStoredTokens();
     if (!tokens?.refresh_token) {
-      return false;
+      return 'rejected';
     }
 
-    try {
-      const response = await fetch(`${this.config.authServerUrl}/token`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded'
-        },
-        body: new URLSearchParams({
-          grant_type: 'refresh_token',
-          refresh_token: tokens.refresh_token,
-          client_id: this.config.clientId
-        })
-      });
+    const retries = this.config.refreshRetries ?? 3;
+    const baseDelay = this.config.refreshRetryDelayMs ?? 500;
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, baseDelay * 2 ** (attempt - 1)));
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(`${this.config.authServerUrl}/token`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded'
+          },
+          body: new URLSearchParams({
+            grant_type: 'refresh_token',
+            refresh_token: tokens.refresh_token,
+            client_id: this.config.clientId
+          })
+        });
+      } catch (error) {
+        console.error('Token refresh failed:', error);
+        continue;
+      }
+
+      // 4xx means the refresh token or client was refused; retrying won't help
+      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+        this.lastError = parseAuthError(await response.json().catch(() => null), response.status);
+        await this.logout();
+        return 'rejected';
+      }
 
       if (!response.ok) {
-        return false;
+        continue;
       }
 
       const newTokens: AuthTokens = await response.json();
       await this.storeTokens(newTokens);
-      return true;
-    } catch (error) {
-      console.error('Token refresh failed:', error);
-      return false;
+      return 'refreshed';
     }
+
+    return 'failed';
   }
 
   /**
-   * Get stored tokens from localStorage
+   * Get stored tokens
    */
   private getStoredTokens(): AuthTokens | null {
-    if (typeof localStorage === 'undefined') return null;
-    const stored = localStorage.getItem(this.tokenStorageKey);
-    return stored ? JSON.parse(stored) : null;
+    return this.tokens;
   }
 
   /**
-   * Store tokens in localStorage
+   * Store tokens in the configured storage
    */
   private async storeTokens(tokens: AuthTokens): Promise<void> {
-    if (typeof localStorage === 'undefined') return;
-    
-    localStorage.setItem(this.tokenStorageKey, JSON.stringify(tokens));
-    
     // Store expiration time
     const expiresAt = Date.now() + (tokens.expires_in * 1000);
-    localStorage.setItem('openauth_token_expires', expiresAt.toString());
+
+    this.tokens = tokens;
+    this.expiresAt = expiresAt;
+    this.scheduleRefresh();
+
+    await Promise.all([
+      this.storage.setItem(this.tokenStorageKey, JSON.stringify(tokens)),
+      this.storage.setItem(this.expiresStorageKey, expiresAt.toString())
+    ]);
+
+    // Broadcast after writing so storage-event receivers read the new tokens
+    this.sync?.post({ type: 'tokens', tokens, expiresAt });
+    this.notifyAuthChange();
   }
 
   /**
-   * Store user data in localStorage
+   * Store user data in the configured storage
    */
-  private storeUser(user: User): void {
-    if (typeof localStorage === 'undefined') return;
-    localStorage.setItem(this.userStorageKey, JSON.stringify(user));
+  private async storeUser(user: User): Promise<void> {
+    this.user = user;
+    await this.storage.setItem(this.userStorageKey, JSON.stringify(user));
+    this.sync?.post({ type: 'user', user });
+    this.notifyAuthChange();
   }
 
   /**
-   * Get stored user data from localStorage
+   * Get stored user data
    */
   getStoredUser(): User | null {
-    if (typeof localStorage === 'undefined') return null;
-    const stored = localStorage.getItem(this.userStorageKey);
-    return stored ? JSON.parse(stored) : null;
+    return this.user;
   }
 
   /**
    * Exchange authorization code for tokens
    */
-  private async exchangeCodeForTokens(code: string): Promise<AuthTokens> {
+  private async exchangeCodeForTokens(code: string, codeVerifier?: string | null): Promise<AuthTokens> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri
+    });
+
+    if (codeVerifier) {
+      body.set('code_verifier', codeVerifier);
+    }
+
     const response = await fetch(`${this.config.authServerUrl}/token`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded'
       },
-      body: new URLSearchParams({
-        grant_type: 'authorization_code',
-        code,
-        client_id: this.config.clientId,
-        redirect_uri: this.config.redirectUri
-      })
+      body
     });
 
     if (!response.ok) {
@@ -264,32 +1144,116 @@ export class AuthClient {
   /**
    * Generate random state for CSRF protection
    */
-  private generateState(): string {
-    const state = Math.random().toString(36).substring(2, 15) + 
-                  Math.random().toString(36).substring(2, 15);
-    if (typeof localStorage !== 'undefined') {
-      localStorage.setItem('openauth_state', state);
-    }
+  private async generateState(): Promise<string> {
+    const state = generateSecureState();
+    await this.transientStorage.setItem(this.stateStorageKey, state);
     return state;
   }
 
   /**
    * Validate state parameter for CSRF protection
    */
-  private validateState(state: string | null): boolean {
-    if (typeof localStorage === 'undefined') return false;
-    const storedState = localStorage.getItem('openauth_state');
-    localStorage.removeItem('openauth_state');
-    return state === storedState;
+  private async validateState(state: string | null): Promise<boolean> {
+    const storedState = await this.transientStorage.getItem(this.stateStorageKey);
+    await this.transientStorage.removeItem(this.stateStorageKey);
+    return !!storedState && state === storedState;
+  }
+
+  /**
+   * Persist the PKCE code verifier for a login attempt, keyed by its state
+   */
+  private async storeCodeVerifier(state: string, verifier: string): Promise<void> {
+    await this.transientStorage.setItem(this.pkceStorageKeyPrefix + state, verifier);
+  }
+
+  /**
+   * Retrieve and discard the PKCE code verifier bound to a state value
+   */
+  private async takeCodeVerifier(state: string): Promise<string | null> {
+    const key = this.pkceStorageKeyPrefix + state;
+    const verifier = await this.transientStorage.getItem(key);
+    await this.transientStorage.removeItem(key);
+    return verifier;
+  }
+
+  /**
+   * Call an address book endpoint and unwrap its JSON response
+   */
+  private async addressRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await this.authenticatedFetch(`${this.config.authServerUrl}/addresses${path}`, {
+      ...init,
+      headers: {
+        ...init.headers,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (response.status === 401 || response.status === 403 || response.status === 429) {
+      throw await readAuthError(response);
+    }
+    if (!response.ok) {
+      const body: any = await response.json().catch(() => ({}));
+      throw new Error(body.error || `Address request failed with status ${response.status}`);
+    }
+
+    return response.status === 204 ? (undefined as T) : await response.json();
+  }
+
+  /**
+   * List the user's saved addresses
+   */
+  async listAddresses(): Promise<Address[]> {
+    const { addresses } = await this.addressRequest<{ addresses: Address[] }>('');
+    return addresses;
+  }
+
+  /**
+   * Get a single saved address
+   */
+  async getAddress(id: string): Promise<Address> {
+    const { address } = await this.addressRequest<{ address: Address }>(`/${encodeURIComponent(id)}`);
+    return address;
+  }
+
+  /**
+   * Save a new address
+   */
+  async createAddress(input: AddressInput): Promise<Address> {
+    const { address } = await this.addressRequest<{ address: Address }>('', {
+      method: 'POST',
+      body: JSON.stringify(input)
+    });
+    return address;
+  }
+
+  /**
+   * Update some fields of a saved address
+   */
+  async updateAddress(id: string, changes: Partial<AddressInput>): Promise<Address> {
+    const { address } = await this.addressRequest<{ address: Address }>(`/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes)
+    });
+    return address;
+  }
+
+  /**
+   * Delete a saved address
+   */
+  async deleteAddress(id: string): Promise<void> {
+    await this.addressRequest<void>(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
   }
 
   /**
    * Make authenticated API request
+   * Throws NotAuthenticatedError when there are no tokens; refused responses
+   * are returned as-is and can be read with readAuthError()
    */
   async authenticatedFetch(url: string, options: RequestInit = {}): Promise<Response> {
+    await this.ready;
     const tokens = this.getStoredTokens();
     if (!tokens) {
-      throw new Error('Not authenticated');
+      throw new NotAuthenticatedError({ error: 'invalid_request', code: 'MISSING_TOKEN', description: 'Not authenticated' });
     }
 
     // Add authorization header
@@ -303,9 +1267,15 @@ export class AuthClient {
       headers
     });
 
-    // If unauthorized, try to refresh token
-    if (response.status === 401) {
-      const refreshed = await this.refreshToken();
+    // If unauthorized, try to refresh token. A refreshed token carries the
+    // same sign-in, so it cannot satisfy an MFA requirement.
+    if (response.status === 401 && !((await readAuthError(response.clone())) instanceof MfaRequiredError)) {
+      // Another request may already have rotated the tokens while this one was in flight
+      const current = this.getStoredTokens();
+      const refreshed = current && current.access_token !== tokens.access_token
+        ? true
+        : (await this.refresh()) === 'refreshed';
+
       if (refreshed) {
         // Retry request with new token
         const newTokens = this.getStoredTokens();
@@ -320,20 +1290,43 @@ export class AuthClient {
       }
     }
 
+    // A blocked account's tokens are useless; sign out so the UI can explain why
+    if (response.status === 403) {
+      const error = await readAuthError(response.clone());
+      if (error instanceof AccountBlockedError) {
+        this.lastError = error;
+        await this.logout();
+      }
+    }
+
     return response;
   }
+
+  /**
+   * Why the last sign-in, token refresh or request was refused, if it was.
+   * Cleared by the next successful sign-in.
+   */
+  getLastError(): AuthError | null {
+    return this.lastError;
+  }
 }
 
 /**
  * React Hook for authentication
  */
 export function useAuth(config: AuthConfig) {
-  const client = new AuthClient(config);
+  // One client per component so background refresh timers are not duplicated
+  const [client]: [AuthClient] = useState(() => new AuthClient(config));
   
   const [user, setUser] = useState(client.getStoredUser());
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState(client.getLastError());
 
   useEffect(() => {
+    // Resumes the client after a remount (e.g. StrictMode's double mount)
+    // destroyed it in the cleanup below
+    client.start();
+
     // Check if we're in a callback flow
     const urlParams = new URLSearchParams(window.location.search);
     if (urlParams.get('code')) {
@@ -342,30 +1335,52 @@ export function useAuth(config: AuthConfig) {
         if (success) {
           setUser(client.getStoredUser());
         }
+        setError(client.getLastError());
         setIsLoading(false);
         // Clean up URL
         window.history.replaceState({}, document.title, window.location.pathname);
       });
-    } else if (client.isAuthenticated() && !user) {
-      // Load user if authenticated but not in state
-      client.getCurrentUser().then(userData => {
-        setUser(userData);
+    } else {
+      // Async storage backends finish loading after the first render
+      client.whenReady().then(() => {
+        if (!client.isAuthenticated()) return;
+        const storedUser = client.getStoredUser();
+        if (storedUser) {
+          setUser(storedUser);
+          return;
+        }
+        // Load user if authenticated but not in state
+        client.getCurrentUser().then(userData => {
+          setUser(userData);
+        });
       });
     }
+
+    // Keep this component in step with logins and logouts from other tabs
+    const unsubscribe = client.onAuthChange((changedUser: User | null) => {
+      setUser(changedUser);
+      setError(client.getLastError());
+    });
+
+    return () => {
+      unsubscribe();
+      client.destroy();
+    };
   }, []);
 
   const login = () => {
     client.login();
   };
 
-  const logout = () => {
-    client.logout();
+  const logout = async () => {
+    await client.logout();
     setUser(null);
   };
 
   return {
     user,
     isLoading,
+    error, // e.g. error instanceof AccountBlockedError after a refused sign-in
     isAuthenticated: client.isAuthenticated(),
     login,
     logout,
@@ -0,0 +1,89 @@
+/**
+ * Account Status Utilities
+ * Suspension, deactivation and pending deletion of user accounts
+ */
+
+import { revokeAllSessions } from './sessions';
+
+export const ACCOUNT_STATUSES = ['active', 'suspended', 'deactivated', 'pending_deletion'] as const;
+
+export type AccountStatus = (typeof ACCOUNT_STATUSES)[number];
+
+export interface AccountStatusRecord {
+  status: AccountStatus;
+  status_reason: string | null;
+  status_changed_at: string | null;
+}
+
+// Error codes returned wherever a blocked account is refused, so clients
+// can explain why sign-in failed
+export const ACCOUNT_STATUS_ERROR_CODES = {
+  suspended: 'ACCOUNT_SUSPENDED',
+  deactivated: 'ACCOUNT_DEACTIVATED',
+  pending_deletion: 'ACCOUNT_PENDING_DELETION'
+} as const;
+
+export type AccountStatusErrorCode = (typeof ACCOUNT_STATUS_ERROR_CODES)[keyof typeof ACCOUNT_STATUS_ERROR_CODES];
+
+const ACCOUNT_STATUS_MESSAGES: Record<Exclude<AccountStatus, 'active'>, string> = {
+  suspended: 'This account has been suspended',
+  deactivated: 'This account has been deactivated',
+  pending_deletion: 'This account is scheduled for deletion'
+};
+
+export interface AccountStatusError {
+  code: AccountStatusErrorCode;
+  message: string;
+}
+
+/**
+ * Read a user's account status. Unknown users are reported as active so
+ * callers can handle them with their own not-found logic.
+ */
+export async function getAccountStatus(db: D1Database, userId: string): Promise<AccountStatusRecord> {
+  const row = await db.prepare(`SELECT status, status_reason, status_changed_at FROM user WHERE id = ?`)
+    .bind(userId)
+    .first<AccountStatusRecord>();
+  return row ?? { status: 'active', status_reason: null, status_changed_at: null };
+}
+
+/**
+ * Describe why an account may not sign in, or null if it is active
+ */
+export function accountStatusError(record: AccountStatusRecord): AccountStatusError | null {
+  if (record.status === 'active') return null;
+
+  const message = ACCOUNT_STATUS_MESSAGES[record.status];
+  return {
+    code: ACCOUNT_STATUS_ERROR_CODES[record.status],
+    message: record.status_reason ? `${message}: ${record.status_reason}` : message
+  };
+}
+
+/**
+ * Check a user's account status and return the refusal, if any
+ */
+export async function checkAccountStatus(db: D1Database, userId: string): Promise<AccountStatusError | null> {
+  return accountStatusError(await getAccountStatus(db, userId));
+}
+
+/**
+ * Change a user's account status. Blocking an account also revokes its
+ * sessions so existing refresh tokens stop working immediately.
+ */
+export async function setAccountStatus(
+  db: D1Database,
+  userId: string,
+  status: AccountStatus,
+  reason: string | null = null
+): Promise<void> {
+  await db.prepare(
+    `UPDATE user SET status = ?, status_reason = ?, status_changed_at = CURRENT_TIMESTAMP WHERE id = ?`
+  )
+    .bind(status, status === 'active' ? null : reason, userId)
+    .run();
+
+  if (status !== 'active') {
+    await revokeAllSessions(db, userId);
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Address Book Utilities
+ * Validation and storage for the user_addresses table
+ */
+
+import {
+  boolean,
+  check,
+  forward,
+  length,
+  maxLength,
+  minLength,
+  nullable,
+  optional,
+  picklist,
+  pipe,
+  regex,
+  string,
+  strictObject,
+  toUpperCase,
+  trim,
+  type InferOutput
+} from 'valibot';
+
+export const ADDRESS_TYPES = ['billing', 'shipping'] as const;
+
+export type AddressType = (typeof ADDRESS_TYPES)[number];
+
+export interface UserAddress {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  type: AddressType;
+  first_name: string;
+  last_name: string;
+  company: string | null;
+  address_line_1: string;
+  address_line_2: string | null;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  phone: string | null;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Postal code formats by ISO 3166-1 alpha-2 country code.
+ * Countries not listed fall back to a permissive alphanumeric check.
+ */
+const POSTAL_CODE_PATTERNS: Record<string, RegExp> = {
+  US: /^\d{5}(-\d{4})?$/,
+  CA: /^[A-Z]\d[A-Z][ -]?\d[A-Z]\d$/i,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]?\s?\d[A-Z]{2}$/i,
+  IE: /^[A-Z]\d[\dW]\s?[A-Z\d]{4}$/i,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  ES: /^\d{5}$/,
+  IT: /^\d{5}$/,
+  NL: /^\d{4}\s?[A-Z]{2}$/i,
+  AU: /^\d{4}$/,
+  NZ: /^\d{4}$/,
+  IN: /^\d{6}$/,
+  JP: /^\d{3}-?\d{4}$/,
+  BR: /^\d{5}-?\d{3}$/,
+  MX: /^\d{5}$/
+};
+
+const FALLBACK_POSTAL_CODE_PATTERN = /^[A-Z\d][A-Z\d -]{1,9}$/i;
+
+/**
+ * Check a postal code against its country's format
+ */
+export function isValidPostalCode(country: string, postalCode: string): boolean {
+  const pattern = POSTAL_CODE_PATTERNS[country.toUpperCase()] || FALLBACK_POSTAL_CODE_PATTERN;
+  return pattern.test(postalCode.trim());
+}
+
+const requiredText = (max: number) => pipe(string(), trim(), minLength(1), maxLength(max));
+const optionalText = (max: number) => optional(nullable(pipe(string(), trim(), maxLength(max))));
+
+export const AddressInputSchema = pipe(
+  strictObject({
+    type: picklist(ADDRESS_TYPES),
+    first_name: requiredText(100),
+    last_name: requiredText(100),
+    company: optionalText(200),
+    address_line_1: requiredText(200),
+    address_line_2: optionalText(200),
+    city: requiredText(100),
+    state: requiredText(100),
+    postal_code: requiredText(20),
+    country: optional(pipe(string(), trim(), toUpperCase(), length(2), regex(/^[A-Z]{2}$/)), 'US'),
+    phone: optional(nullable(pipe(string(), trim(), regex(/^\+?[\d\s().-]{7,20}$/, 'Invalid phone number')))),
+    is_default: optional(boolean())
+  }),
+  forward(
+    check(input => isValidPostalCode(input.country, input.postal_code), 'Invalid postal code for country'),
+    ['postal_code']
+  )
+);
+
+export type AddressInput = InferOutput<typeof AddressInputSchema>;
+
+/**
+ * Convert a D1 row (is_default stored as 0/1) to a UserAddress
+ */
+function toAddress(row: Record<string, any>): UserAddress {
+  return { ...row, is_default: Boolean(row.is_default) } as UserAddress;
+}
+
+/**
+ * Statement that promotes the oldest address of a type to default when the
+ * user has addresses of that type but none marked default
+ */
+function ensureDefaultStatement(db: D1Database, userId: string, type: AddressType): D1PreparedStatement {
+  return db.prepare(
+    `UPDATE user_addresses SET is_default = 1, updated_at = CURRENT_TIMESTAMP
+     WHERE id = (
+       SELECT id FROM user_addresses WHERE user_id = ? AND type = ?
+       ORDER BY created_at ASC, id ASC LIMIT 1
+     )
+     AND NOT EXISTS (
+       SELECT 1 FROM user_addresses WHERE user_id = ? AND type = ? AND is_default = 1
+     )`
+  ).bind(userId, type, userId, type);
+}
+
+/**
+ * Statement that clears the default flag on every other address of a type
+ */
+function clearOtherDefaultsStatement(db: D1Database, userId: string, type: AddressType, keepId: string): D1PreparedStatement {
+  return db.prepare(
+    `UPDATE user_addresses SET is_default = 0, updated_at = CURRENT_TIMESTAMP
+     WHERE user_id = ? AND type = ? AND id != ? AND is_default = 1`
+  ).bind(userId, type, keepId);
+}
+
+/**
+ * List a user's addresses, defaults first
+ */
+export async function listAddresses(db: D1Database, userId: string): Promise<UserAddress[]> {
+  const { results } = await db.prepare(
+    `SELECT * FROM user_addresses WHERE user_id = ?
+     ORDER BY type ASC, is_default DESC, created_at ASC`
+  )
+    .bind(userId)
+    .all();
+  return results.map(toAddress);
+}
+
+/**
+ * Get one of a user's addresses
+ */
+export async function getAddress(db: D1Database, userId: string, id: string): Promise<UserAddress | null> {
+  const row = await db.prepare(`SELECT * FROM user_addresses WHERE id = ? AND user_id = ?`)
+    .bind(id, userId)
+    .first();
+  return row ? toAddress(row) : null;
+}
+
+/**
+ * Create an address. The first address of a type always becomes the default.
+ */
+export async function createAddress(db: D1Database, userId: string, input: AddressInput): Promise<UserAddress> {
+  const id = crypto.randomUUID().replace(/-/g, '');
+  const statements = [
+    db.prepare(
+      `INSERT INTO user_addresses (
+         id, tenant_id, user_id, type, first_name, last_name, company, address_line_1, address_line_2,
+         city, state, postal_code, country, phone, is_default
+       ) VALUES (?, (SELECT tenant_id FROM user WHERE id = ?), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      id,
+      userId,
+      userId,
+      input.type,
+      input.first_name,
+      input.last_name,
+      input.company ?? null,
+      input.address_line_1,
+      input.address_line_2 ?? null,
+      input.city,
+      input.state,
+      input.postal_code,
+      input.country,
+      input.phone ?? null,
+      input.is_default ? 1 : 0
+    )
+  ];
+
+  if (input.is_default) {
+    statements.push(clearOtherDefaultsStatement(db, userId, input.type, id));
+  }
+  statements.push(ensureDefaultStatement(db, userId, input.type));
+
+  await db.batch(statements);
+  return (await getAddress(db, userId, id))!;
+}
+
+/**
+ * Replace an address's fields, keeping exactly one default per type
+ */
+export async function updateAddress(
+  db: D1Database,
+  userId: string,
+  existing: UserAddress,
+  input: AddressInput
+): Promise<UserAddress> {
+  // Keep the current default flag unless the caller sets it explicitly
+  const isDefault = input.is_default ?? (existing.is_default && existing.type === input.type);
+  const statements = [
+    db.prepare(
+      `UPDATE user_addresses SET
+         type = ?, first_name = ?, last_name = ?, company = ?, address_line_1 = ?, address_line_2 = ?,
+         city = ?, state = ?, postal_code = ?, country = ?, phone = ?, is_default = ?,
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND user_id = ?`
+    ).bind(
+      input.type,
+      input.first_name,
+      input.last_name,
+      input.company ?? null,
+      input.address_line_1,
+      input.address_line_2 ?? null,
+      input.city,
+      input.state,
+      input.postal_code,
+      input.country,
+      input.phone ?? null,
+      isDefault ? 1 : 0,
+      existing.id,
+      userId
+    )
+  ];
+
+  if (isDefault) {
+    statements.push(clearOtherDefaultsStatement(db, userId, input.type, existing.id));
+  }
+  statements.push(ensureDefaultStatement(db, userId, input.type));
+  if (existing.type !== input.type) {
+    statements.push(ensureDefaultStatement(db, userId, existing.type));
+  }
+
+  await db.batch(statements);
+  return (await getAddress(db, userId, existing.id))!;
+}
+
+/**
+ * Delete an address, promoting another of the same type to default if needed
+ */
+export async function deleteAddress(db: D1Database, userId: string, existing: UserAddress): Promise<void> {
+  await db.batch([
+    db.prepare(`DELETE FROM user_addresses WHERE id = ? AND user_id = ?`).bind(existing.id, userId),
+    ensureDefaultStatement(db, userId, existing.type)
+  ]);
+}
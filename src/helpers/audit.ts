@@ -0,0 +1,251 @@
+/**
+ * Audit Log Utilities
+ * Record authentication and admin events and query them for review
+ */
+
+import {
+  integer,
+  maxValue,
+  minLength,
+  minValue,
+  number,
+  object,
+  optional,
+  picklist,
+  pipe,
+  regex,
+  string,
+  transform,
+  trim,
+  type InferOutput
+} from 'valibot';
+import { getClientIP } from './token-validation';
+
+export const AUDIT_EVENTS = [
+  'login',
+  'register',
+  'password_reset',
+  'identity_link',
+  'identity_unlink',
+  'mfa_enroll',
+  'mfa_verify',
+  'mfa_disable',
+  'mfa_recovery_codes',
+  'session_revoke',
+  'role_change',
+  'status_change',
+  'admin_sign_out',
+  'client_register',
+  'client_secret_rotate',
+  'client_disable',
+  'client_enable'
+] as const;
+
+export type AuditEvent = typeof AUDIT_EVENTS[number];
+
+export const AUDIT_OUTCOMES = ['success', 'failure'] as const;
+
+export type AuditOutcome = typeof AUDIT_OUTCOMES[number];
+
+export interface AuditEntry {
+  id: string;
+  tenant_id: string;
+  event: AuditEvent;
+  outcome: AuditOutcome;
+  actor_id: string | null;
+  target_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  details: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface AuditEventInput {
+  tenantId: string;
+  event: AuditEvent;
+  outcome?: AuditOutcome; // Defaults to success
+  actorId?: string | null;
+  targetId?: string | null;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditQueryResult {
+  entries: AuditEntry[];
+  total: number;
+  page: number;
+  per_page: number;
+}
+
+// Upper bound on rows in a single export
+export const AUDIT_EXPORT_LIMIT = 10000;
+
+const timestamp = pipe(string(), trim(), regex(/^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2})?(\.\d+)?Z?)?$/, 'Expected an ISO date or timestamp'));
+
+/**
+ * Query string filters for the audit log. `user_id` matches either the actor
+ * or the target. Ranges are [after, before).
+ */
+export const AuditQuerySchema = object({
+  event: optional(picklist(AUDIT_EVENTS)),
+  outcome: optional(picklist(AUDIT_OUTCOMES)),
+  actor_id: optional(pipe(string(), trim(), minLength(1))),
+  target_id: optional(pipe(string(), trim(), minLength(1))),
+  user_id: optional(pipe(string(), trim(), minLength(1))),
+  ip_address: optional(pipe(string(), trim(), minLength(1))),
+  after: optional(timestamp),
+  before: optional(timestamp),
+  page: optional(pipe(string(), transform(Number), number(), integer(), minValue(1), maxValue(100000)), '1'),
+  per_page: optional(pipe(string(), transform(Number), number(), integer(), minValue(1), maxValue(200)), '50')
+});
+
+export type AuditQuery = InferOutput<typeof AuditQuerySchema>;
+
+/**
+ * Append an event to the audit log with the request's IP and user agent.
+ * A failed write is logged rather than failing the action being audited.
+ */
+export async function recordAuditEvent(db: D1Database, request: Request, input: AuditEventInput): Promise<void> {
+  try {
+    await db.prepare(
+      `INSERT INTO audit_log (tenant_id, event, outcome, actor_id, target_id, ip_address, user_agent, details)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        input.tenantId,
+        input.event,
+        input.outcome ?? 'success',
+        input.actorId ?? null,
+        input.targetId ?? null,
+        getClientIP(request),
+        request.headers.get('User-Agent'),
+        input.details ? JSON.stringify(input.details) : null
+      )
+      .run();
+  } catch (error) {
+    console.error(`Failed to record audit event ${input.event}:`, error);
+  }
+}
+
+function toAuditEntry(row: Record<string, any>): AuditEntry {
+  return {
+    ...(row as AuditEntry),
+    details: row.details ? JSON.parse(row.details) : null
+  };
+}
+
+/**
+ * Build the WHERE clause for a tenant's entries matching a set of filters
+ */
+function auditConditions(tenantId: string, query: AuditQuery): { where: string; bindings: unknown[] } {
+  const conditions: string[] = [`tenant_id = ?`];
+  const bindings: unknown[] = [tenantId];
+
+  if (query.event) {
+    conditions.push(`event = ?`);
+    bindings.push(query.event);
+  }
+  if (query.outcome) {
+    conditions.push(`outcome = ?`);
+    bindings.push(query.outcome);
+  }
+  if (query.actor_id) {
+    conditions.push(`actor_id = ?`);
+    bindings.push(query.actor_id);
+  }
+  if (query.target_id) {
+    conditions.push(`target_id = ?`);
+    bindings.push(query.target_id);
+  }
+  if (query.user_id) {
+    conditions.push(`(actor_id = ? OR target_id = ?)`);
+    bindings.push(query.user_id, query.user_id);
+  }
+  if (query.ip_address) {
+    conditions.push(`ip_address = ?`);
+    bindings.push(query.ip_address);
+  }
+  if (query.after) {
+    conditions.push(`created_at >= datetime(?)`);
+    bindings.push(query.after);
+  }
+  if (query.before) {
+    conditions.push(`created_at < datetime(?)`);
+    bindings.push(query.before);
+  }
+
+  return {
+    where: `WHERE ${conditions.join(' AND ')}`,
+    bindings
+  };
+}
+
+/**
+ * Page through a tenant's audit entries, newest first
+ */
+export async function queryAuditLog(db: D1Database, tenantId: string, query: AuditQuery): Promise<AuditQueryResult> {
+  const { where, bindings } = auditConditions(tenantId, query);
+  const offset = (query.page - 1) * query.per_page;
+
+  const [rows, count] = await db.batch<Record<string, any>>([
+    db.prepare(`SELECT * FROM audit_log ${where} ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?`)
+      .bind(...bindings, query.per_page, offset),
+    db.prepare(`SELECT COUNT(*) AS total FROM audit_log ${where}`).bind(...bindings)
+  ]);
+
+  return {
+    entries: rows.results.map(toAuditEntry),
+    total: count.results[0]?.total ?? 0,
+    page: query.page,
+    per_page: query.per_page
+  };
+}
+
+/**
+ * Every entry of a tenant matching the filters, oldest first, up to
+ * AUDIT_EXPORT_LIMIT. Pagination is ignored.
+ */
+export async function exportAuditLog(db: D1Database, tenantId: string, query: AuditQuery): Promise<AuditEntry[]> {
+  const { where, bindings } = auditConditions(tenantId, query);
+  const { results } = await db.prepare(
+    `SELECT * FROM audit_log ${where} ORDER BY created_at ASC, rowid ASC LIMIT ?`
+  )
+    .bind(...bindings, AUDIT_EXPORT_LIMIT)
+    .all<Record<string, any>>();
+  return results.map(toAuditEntry);
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'created_at',
+  'event',
+  'outcome',
+  'actor_id',
+  'target_id',
+  'ip_address',
+  'user_agent',
+  'details'
+] as const;
+
+/**
+ * Quote a CSV field. Values that a spreadsheet would run as a formula are
+ * prefixed with a quote so exports are safe to open.
+ */
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'string' ? value : JSON.stringify(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render audit entries as CSV with a header row
+ */
+export function auditLogToCsv(entries: AuditEntry[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const entry of entries) {
+    lines.push(CSV_COLUMNS.map(column => csvField(entry[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,214 @@
+/**
+ * Authentication Errors
+ * Typed errors for refused requests, rendered as JSON problem responses
+ * with RFC 6750 WWW-Authenticate challenges
+ */
+
+import type { AccountStatusErrorCode } from './account-status';
+
+export type AuthErrorCode =
+  | 'MISSING_TOKEN'
+  | 'INVALID_TOKEN'
+  | 'TOKEN_EXPIRED'
+  | 'SESSION_REVOKED'
+  | 'USER_NOT_FOUND'
+  | 'TENANT_MISMATCH'
+  | 'INSUFFICIENT_ROLE'
+  | 'INSUFFICIENT_PERMISSION'
+  | 'MFA_REQUIRED'
+  | AccountStatusErrorCode
+  | 'RATE_LIMITED'
+  | 'AUTH_ERROR';
+
+/**
+ * Error codes defined by RFC 6750 section 3.1, plus the step-up error from
+ * RFC 9470
+ */
+export type BearerErrorCode =
+  | 'invalid_request'
+  | 'invalid_token'
+  | 'insufficient_scope'
+  | 'insufficient_user_authentication';
+
+/**
+ * JSON body of an error response (RFC 9457 problem details). `error` repeats
+ * the detail for clients that predate the problem format.
+ */
+export interface AuthErrorBody {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  code: AuthErrorCode;
+  error: string;
+  scope?: string;
+  retryAfter?: number;
+}
+
+export interface AuthErrorOptions {
+  code: AuthErrorCode;
+  status: number;
+  bearerError?: BearerErrorCode;
+  scope?: string; // Space-separated roles or permissions the request lacked
+}
+
+const STATUS_TITLES: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  429: 'Too Many Requests'
+};
+
+/**
+ * Quote a WWW-Authenticate parameter value
+ */
+function quoteParam(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&').replace(/[\r\n]+/g, ' ')}"`;
+}
+
+/**
+ * Base class for every refused authentication or authorization
+ */
+export class AuthError extends Error {
+  readonly code: AuthErrorCode;
+  readonly status: number;
+  readonly bearerError?: BearerErrorCode;
+  readonly scope?: string;
+
+  constructor(message: string, options: AuthErrorOptions) {
+    super(message);
+    this.name = new.target.name;
+    this.code = options.code;
+    this.status = options.status;
+    this.bearerError = options.bearerError;
+    this.scope = options.scope;
+  }
+
+  /**
+   * WWW-Authenticate challenge for this error. Requests without credentials
+   * get a bare challenge (RFC 6750 section 3.1); errors that are not about
+   * the token itself get none.
+   */
+  challenge(): string | null {
+    if (this.status !== 401 && !this.bearerError) return null;
+
+    const params = [];
+    if (this.bearerError) {
+      params.push(`error=${quoteParam(this.bearerError)}`);
+      params.push(`error_description=${quoteParam(this.message)}`);
+    }
+    if (this.scope) {
+      params.push(`scope=${quoteParam(this.scope)}`);
+    }
+    return params.length > 0 ? `Bearer ${params.join(', ')}` : 'Bearer';
+  }
+
+  toJSON(): AuthErrorBody {
+    return {
+      type: 'about:blank',
+      title: STATUS_TITLES[this.status] || 'Error',
+      status: this.status,
+      detail: this.message,
+      code: this.code,
+      error: this.message,
+      ...(this.scope && { scope: this.scope })
+    };
+  }
+
+  headers(): Record<string, string> {
+    const challenge = this.challenge();
+    return {
+      'Content-Type': 'application/problem+json',
+      ...(challenge && { 'WWW-Authenticate': challenge })
+    };
+  }
+
+  toResponse(headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(this.toJSON()), {
+      status: this.status,
+      headers: { ...this.headers(), ...headers }
+    });
+  }
+}
+
+/**
+ * The request carried no bearer token
+ */
+export class MissingTokenError extends AuthError {
+  constructor(message = 'No authorization token provided') {
+    super(message, { code: 'MISSING_TOKEN', status: 401 });
+  }
+}
+
+/**
+ * The token failed verification, or the session or user behind it is gone
+ */
+export class InvalidTokenError extends AuthError {
+  constructor(
+    message = 'Invalid or expired token',
+    code: 'INVALID_TOKEN' | 'TOKEN_EXPIRED' | 'SESSION_REVOKED' | 'USER_NOT_FOUND' | 'TENANT_MISMATCH' = 'INVALID_TOKEN'
+  ) {
+    super(message, { code, status: 401, bearerError: 'invalid_token' });
+  }
+}
+
+/**
+ * The token was valid once but has expired; the client should refresh
+ */
+export class TokenExpiredError extends InvalidTokenError {
+  constructor(message = 'Token expired') {
+    super(message, 'TOKEN_EXPIRED');
+  }
+}
+
+/**
+ * The user lacks a role or permission the route requires
+ */
+export class InsufficientScopeError extends AuthError {
+  constructor(
+    message: string,
+    scope: string,
+    code: 'INSUFFICIENT_ROLE' | 'INSUFFICIENT_PERMISSION' = 'INSUFFICIENT_ROLE'
+  ) {
+    super(message, { code, status: 403, bearerError: 'insufficient_scope', scope });
+  }
+}
+
+/**
+ * The token is valid but the user did not sign in with a second factor.
+ * The client should send the user through sign-in again (RFC 9470 step-up).
+ */
+export class MfaRequiredError extends AuthError {
+  constructor(message = 'Sign in with a second factor to continue') {
+    super(message, { code: 'MFA_REQUIRED', status: 401, bearerError: 'insufficient_user_authentication' });
+  }
+}
+
+/**
+ * The account is suspended, deactivated or pending deletion
+ */
+export class AccountBlockedError extends AuthError {
+  constructor(message: string, code: AccountStatusErrorCode) {
+    super(message, { code, status: 403 });
+  }
+}
+
+/**
+ * Too many requests from this client
+ */
+export class RateLimitedError extends AuthError {
+  readonly retryAfter: number; // Seconds
+
+  constructor(retryAfter: number, message = 'Rate limit exceeded') {
+    super(message, { code: 'RATE_LIMITED', status: 429 });
+    this.retryAfter = retryAfter;
+  }
+
+  toJSON(): AuthErrorBody {
+    return { ...super.toJSON(), retryAfter: this.retryAfter };
+  }
+
+  headers(): Record<string, string> {
+    return { ...super.headers(), 'Retry-After': this.retryAfter.toString() };
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * OAuth Client Registry
+ * Registered clients, redirect URI checks and client secret handling
+ */
+
+import {
+  array,
+  check,
+  forward,
+  maxLength,
+  minLength,
+  optional,
+  picklist,
+  pipe,
+  string,
+  strictObject,
+  trim,
+  url,
+  type InferOutput
+} from 'valibot';
+
+export const GRANT_TYPES = ['authorization_code', 'refresh_token', 'client_credentials'] as const;
+export const CLIENT_TYPES = ['public', 'confidential'] as const;
+
+// Client used by the issuer's built-in demo routes. It is not stored in D1,
+// may only redirect to the issuer's own /callback, and is refused entirely
+// when the demo routes are turned off.
+export const DEMO_CLIENT_ID = 'your-client-id';
+
+export type GrantType = (typeof GRANT_TYPES)[number];
+export type ClientType = (typeof CLIENT_TYPES)[number];
+
+export interface OAuthClient {
+  id: string;
+  tenant_id: string;
+  name: string;
+  client_type: ClientType;
+  redirect_uris: string[];
+  grant_types: GrantType[];
+  disabled_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const ClientRegistrationSchema = pipe(
+  strictObject({
+    name: pipe(string(), trim(), minLength(1), maxLength(100)),
+    client_type: picklist(CLIENT_TYPES),
+    redirect_uris: pipe(array(pipe(string(), url())), maxLength(20)),
+    grant_types: optional(pipe(array(picklist(GRANT_TYPES)), minLength(1)), ['authorization_code', 'refresh_token'])
+  }),
+  forward(
+    check(
+      input => !input.grant_types.includes('authorization_code') || input.redirect_uris.length > 0,
+      'authorization_code clients need at least one redirect URI'
+    ),
+    ['redirect_uris']
+  ),
+  forward(
+    check(
+      input => input.client_type === 'confidential' || !input.grant_types.includes('client_credentials'),
+      'client_credentials requires a confidential client'
+    ),
+    ['grant_types']
+  )
+);
+
+export type ClientRegistration = InferOutput<typeof ClientRegistrationSchema>;
+
+/**
+ * Convert a D1 row (JSON array columns) to an OAuthClient
+ */
+function toClient(row: Record<string, any>): OAuthClient {
+  const { secret_hash, ...client } = row;
+  return {
+    ...client,
+    redirect_uris: JSON.parse(row.redirect_uris),
+    grant_types: JSON.parse(row.grant_types)
+  } as OAuthClient;
+}
+
+/**
+ * Hash a client secret for storage
+ */
+async function hashSecret(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Generate a random client secret
+ */
+function generateClientSecret(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=/g, '');
+}
+
+/**
+ * Compare two strings without short-circuiting on the first difference
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Get one of a tenant's registered clients by id, including disabled ones
+ */
+export async function getClient(db: D1Database, tenantId: string, clientId: string): Promise<OAuthClient | null> {
+  const row = await db.prepare(`SELECT * FROM oauth_clients WHERE id = ? AND tenant_id = ?`)
+    .bind(clientId, tenantId)
+    .first();
+  return row ? toClient(row) : null;
+}
+
+/**
+ * List a tenant's registered clients
+ */
+export async function listClients(db: D1Database, tenantId: string): Promise<OAuthClient[]> {
+  const { results } = await db.prepare(`SELECT * FROM oauth_clients WHERE tenant_id = ? ORDER BY created_at ASC`)
+    .bind(tenantId)
+    .all();
+  return results.map(toClient);
+}
+
+/**
+ * Check that a client is registered to the tenant, enabled and allowed to use
+ * a redirect URI. Redirect URIs must match a registered URI exactly.
+ */
+export async function isRedirectAllowed(
+  db: D1Database,
+  tenantId: string,
+  clientId: string,
+  redirectUri: string,
+  issuerOrigin: string,
+  demoEnabled = true
+): Promise<boolean> {
+  if (clientId === DEMO_CLIENT_ID) {
+    return demoEnabled && redirectUri === `${issuerOrigin}/callback`;
+  }
+
+  const client = await getClient(db, tenantId, clientId);
+  if (!client || client.disabled_at) return false;
+  return client.redirect_uris.includes(redirectUri);
+}
+
+/**
+ * Authenticate a client at the token endpoint.
+ * Returns an OAuth error code, or null if the client may use the grant.
+ */
+export async function authenticateClient(
+  db: D1Database,
+  tenantId: string,
+  clientId: string,
+  grantType: string,
+  clientSecret: string | null,
+  demoEnabled = true
+): Promise<'invalid_client' | 'unauthorized_client' | null> {
+  if (clientId === DEMO_CLIENT_ID) {
+    if (!demoEnabled) return 'invalid_client';
+    return grantType === 'client_credentials' ? 'unauthorized_client' : null;
+  }
+
+  const row = await db.prepare(`SELECT * FROM oauth_clients WHERE id = ? AND tenant_id = ?`)
+    .bind(clientId, tenantId)
+    .first<Record<string, any>>();
+  if (!row || row.disabled_at) return 'invalid_client';
+
+  const client = toClient(row);
+  if (!client.grant_types.includes(grantType as GrantType)) {
+    return 'unauthorized_client';
+  }
+
+  if (client.client_type === 'confidential') {
+    if (!clientSecret || !row.secret_hash) return 'invalid_client';
+    if (!timingSafeEqual(await hashSecret(clientSecret), row.secret_hash)) return 'invalid_client';
+  }
+
+  return null;
+}
+
+/**
+ * Register a client to a tenant. Confidential clients get a secret, returned
+ * only once.
+ */
+export async function registerClient(
+  db: D1Database,
+  tenantId: string,
+  registration: ClientRegistration
+): Promise<{ client: OAuthClient; client_secret?: string }> {
+  const id = crypto.randomUUID();
+  const secret = registration.client_type === 'confidential' ? generateClientSecret() : undefined;
+
+  await db.prepare(
+    `INSERT INTO oauth_clients (id, tenant_id, name, client_type, redirect_uris, grant_types, secret_hash)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  )
+    .bind(
+      id,
+      tenantId,
+      registration.name,
+      registration.client_type,
+      JSON.stringify(registration.redirect_uris),
+      JSON.stringify(registration.grant_types),
+      secret ? await hashSecret(secret) : null
+    )
+    .run();
+
+  return { client: (await getClient(db, tenantId, id))!, client_secret: secret };
+}
+
+/**
+ * Replace a confidential client's secret. Returns null if the client is
+ * unknown or public.
+ */
+export async function rotateClientSecret(db: D1Database, tenantId: string, clientId: string): Promise<string | null> {
+  const secret = generateClientSecret();
+  const result = await db.prepare(
+    `UPDATE oauth_clients SET secret_hash = ?, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND tenant_id = ? AND client_type = 'confidential'`
+  )
+    .bind(await hashSecret(secret), clientId, tenantId)
+    .run();
+  return result.meta.changes > 0 ? secret : null;
+}
+
+/**
+ * Disable or re-enable a client. Returns false if the client is unknown.
+ */
+export async function setClientDisabled(
+  db: D1Database,
+  tenantId: string,
+  clientId: string,
+  disabled: boolean
+): Promise<boolean> {
+  const result = await db.prepare(
+    `UPDATE oauth_clients
+     SET disabled_at = CASE WHEN ? THEN COALESCE(disabled_at, CURRENT_TIMESTAMP) ELSE NULL END,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND tenant_id = ?`
+  )
+    .bind(disabled ? 1 : 0, clientId, tenantId)
+    .run();
+  return result.meta.changes > 0;
+}
@@ -0,0 +1,283 @@
+/**
+ * Issuer Configuration
+ * Read and validate the issuer's settings from Env vars
+ */
+
+import {
+  array,
+  check,
+  flatten,
+  forward,
+  object,
+  optional,
+  parseJson,
+  picklist,
+  pipe,
+  regex,
+  safeParse,
+  string,
+  transform,
+  trim,
+  union,
+  url,
+  type InferOutput
+} from 'valibot';
+import type { Theme } from '@openauthjs/openauth/ui/theme';
+
+export const ENVIRONMENTS = ['development', 'staging', 'production'] as const;
+
+export type Environment = typeof ENVIRONMENTS[number];
+
+export interface ProviderSettings {
+  google?: { clientId: string; clientSecret: string };
+  github?: { clientId: string; clientSecret: string };
+  microsoft?: { clientId: string; clientSecret: string; tenant: string };
+  apple?: { clientId: string };
+  oidc?: { issuer: string; clientId: string };
+}
+
+export interface EmailSettings {
+  provider: 'outbox' | 'http';
+  http?: { endpoint: string; apiKey: string; from: string };
+  devOutbox: boolean; // Serve captured outbox mail at /dev/outbox to local requests
+}
+
+export interface IssuerConfig {
+  environment: Environment;
+  appName: string; // Login page title and email sender name
+  theme: Theme;
+  demoRoutes: boolean; // Serve the demo / and /callback routes and accept the demo client
+  cors: {
+    origins: string[];
+    adminOrigins: string[];
+  };
+  email: EmailSettings;
+  mfa: {
+    requiredRoles: string[]; // Roles, and roles inheriting from them, that must sign in with a second factor
+  };
+  providers: ProviderSettings;
+}
+
+const DEFAULT_APP_NAME = 'Go-Shop';
+const DEFAULT_LOGO = 'https://ik.imagekit.io/dr5fryhth/logo1.png?updatedAt=1760472240746';
+
+const DEFAULT_THEME: Theme = {
+  primary: '#FFF8DC',
+  favicon: DEFAULT_LOGO,
+  logo: {
+    dark: DEFAULT_LOGO,
+    light: DEFAULT_LOGO
+  }
+};
+
+const colorScheme = union([
+  pipe(string(), trim()),
+  object({ light: string(), dark: string() })
+]);
+
+/**
+ * Overrides for the login page theme, given as JSON in THEME or a tenant's theme
+ */
+export const ThemeSchema = object({
+  title: optional(string()),
+  favicon: optional(pipe(string(), url())),
+  radius: optional(picklist(['none', 'sm', 'md', 'lg', 'full'])),
+  primary: optional(colorScheme),
+  background: optional(colorScheme),
+  logo: optional(colorScheme),
+  font: optional(object({ family: optional(string()), scale: optional(string()) })),
+  css: optional(string())
+});
+
+// '*', an origin, or a wildcard subdomain origin
+const ORIGIN_PATTERN = /^(\*|https?:\/\/(\*\.)?[^\s/*]+)$/;
+
+const originList = pipe(
+  optional(string(), ''),
+  transform(value => value.split(',').map(origin => origin.trim()).filter(Boolean)),
+  array(pipe(string(), regex(ORIGIN_PATTERN, 'Expected a comma-separated list of origins like https://shop.example.com')))
+);
+
+const roleList = pipe(
+  optional(string(), ''),
+  transform(value => value.split(',').map(role => role.trim()).filter(Boolean))
+);
+
+const flag = optional(picklist(['true', 'false'], 'Expected "true" or "false"'));
+
+/**
+ * The Env vars the issuer reads, as strings. Empty values count as unset.
+ */
+const EnvConfigSchema = pipe(
+  object({
+    ENVIRONMENT: optional(picklist(ENVIRONMENTS), 'development'),
+    APP_NAME: optional(pipe(string(), trim()), DEFAULT_APP_NAME),
+    THEME: optional(pipe(string(), parseJson(), ThemeSchema)),
+    DEMO_ROUTES: flag,
+    CORS_ALLOWED_ORIGINS: originList,
+    CORS_ADMIN_ORIGINS: originList,
+    MFA_REQUIRED_ROLES: roleList,
+    EMAIL_PROVIDER: optional(picklist(['outbox', 'http']), 'outbox'),
+    EMAIL_API_URL: optional(pipe(string(), url())),
+    EMAIL_API_KEY: optional(string()),
+    EMAIL_FROM: optional(string()),
+    DEV_OUTBOX: flag,
+    GOOGLE_CLIENT_ID: optional(string()),
+    GOOGLE_CLIENT_SECRET: optional(string()),
+    GITHUB_CLIENT_ID: optional(string()),
+    GITHUB_CLIENT_SECRET: optional(string()),
+    MICROSOFT_CLIENT_ID: optional(string()),
+    MICROSOFT_CLIENT_SECRET: optional(string()),
+    MICROSOFT_TENANT: optional(string(), 'common'),
+    APPLE_CLIENT_ID: optional(string()),
+    OIDC_ISSUER: optional(pipe(string(), url())),
+    OIDC_CLIENT_ID: optional(string())
+  }),
+  forward(
+    check(
+      input => input.EMAIL_PROVIDER !== 'http' || !!(input.EMAIL_API_URL && input.EMAIL_API_KEY && input.EMAIL_FROM),
+      'EMAIL_PROVIDER=http requires EMAIL_API_URL, EMAIL_API_KEY and EMAIL_FROM'
+    ),
+    ['EMAIL_PROVIDER']
+  ),
+  forward(
+    check(
+      input => input.EMAIL_PROVIDER !== 'outbox' || input.ENVIRONMENT !== 'production',
+      'EMAIL_PROVIDER=outbox never sends mail and cannot be used in production'
+    ),
+    ['EMAIL_PROVIDER']
+  ),
+  forward(
+    check(
+      input => input.DEV_OUTBOX !== 'true' || input.ENVIRONMENT !== 'production',
+      'DEV_OUTBOX exposes sign-in codes and cannot be enabled in production'
+    ),
+    ['DEV_OUTBOX']
+  ),
+  forward(
+    check(input => !input.GOOGLE_CLIENT_ID === !input.GOOGLE_CLIENT_SECRET, 'Set both GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET, or neither'),
+    ['GOOGLE_CLIENT_ID']
+  ),
+  forward(
+    check(input => !input.GITHUB_CLIENT_ID === !input.GITHUB_CLIENT_SECRET, 'Set both GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET, or neither'),
+    ['GITHUB_CLIENT_ID']
+  ),
+  forward(
+    check(input => !input.MICROSOFT_CLIENT_ID === !input.MICROSOFT_CLIENT_SECRET, 'Set both MICROSOFT_CLIENT_ID and MICROSOFT_CLIENT_SECRET, or neither'),
+    ['MICROSOFT_CLIENT_ID']
+  ),
+  forward(
+    check(input => !input.OIDC_ISSUER === !input.OIDC_CLIENT_ID, 'Set both OIDC_ISSUER and OIDC_CLIENT_ID, or neither'),
+    ['OIDC_ISSUER']
+  )
+);
+
+type EnvConfig = InferOutput<typeof EnvConfigSchema>;
+
+/**
+ * Thrown when Env holds invalid settings. The message lists every problem
+ * by variable name; secret values are never included.
+ */
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid issuer configuration:\n${problems.map(problem => `- ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+function toIssuerConfig(input: EnvConfig): IssuerConfig {
+  const { title, ...theme } = input.THEME ?? {};
+  const providers: ProviderSettings = {};
+
+  if (input.GOOGLE_CLIENT_ID && input.GOOGLE_CLIENT_SECRET) {
+    providers.google = { clientId: input.GOOGLE_CLIENT_ID, clientSecret: input.GOOGLE_CLIENT_SECRET };
+  }
+  if (input.GITHUB_CLIENT_ID && input.GITHUB_CLIENT_SECRET) {
+    providers.github = { clientId: input.GITHUB_CLIENT_ID, clientSecret: input.GITHUB_CLIENT_SECRET };
+  }
+  if (input.MICROSOFT_CLIENT_ID && input.MICROSOFT_CLIENT_SECRET) {
+    providers.microsoft = {
+      clientId: input.MICROSOFT_CLIENT_ID,
+      clientSecret: input.MICROSOFT_CLIENT_SECRET,
+      tenant: input.MICROSOFT_TENANT
+    };
+  }
+  if (input.APPLE_CLIENT_ID) {
+    providers.apple = { clientId: input.APPLE_CLIENT_ID };
+  }
+  if (input.OIDC_ISSUER && input.OIDC_CLIENT_ID) {
+    providers.oidc = { issuer: input.OIDC_ISSUER, clientId: input.OIDC_CLIENT_ID };
+  }
+
+  return {
+    environment: input.ENVIRONMENT,
+    appName: input.APP_NAME,
+    theme: {
+      ...DEFAULT_THEME,
+      ...(theme as Partial<Theme>),
+      title: title || input.APP_NAME
+    },
+    // The demo flow signs into the issuer itself, so it is off in production
+    // unless explicitly enabled
+    demoRoutes: input.DEMO_ROUTES ? input.DEMO_ROUTES === 'true' : input.ENVIRONMENT !== 'production',
+    cors: {
+      origins: input.CORS_ALLOWED_ORIGINS,
+      adminOrigins: input.CORS_ADMIN_ORIGINS
+    },
+    email: {
+      provider: input.EMAIL_PROVIDER,
+      ...(input.EMAIL_PROVIDER === 'http' && {
+        http: { endpoint: input.EMAIL_API_URL!, apiKey: input.EMAIL_API_KEY!, from: input.EMAIL_FROM! }
+      }),
+      // Off unless asked for: the outbox holds every tenant's codes
+      devOutbox: input.DEV_OUTBOX === 'true' && input.EMAIL_PROVIDER === 'outbox'
+    },
+    mfa: {
+      requiredRoles: input.MFA_REQUIRED_ROLES
+    },
+    providers
+  };
+}
+
+/**
+ * Validate the issuer's settings in Env, throwing a ConfigError that lists
+ * every invalid variable
+ */
+export function parseIssuerConfig(env: Env): IssuerConfig {
+  // Only string vars are settings; bindings like AUTH_DB are not
+  const vars = Object.fromEntries(
+    Object.entries(env).filter(([, value]) => typeof value === 'string' && value.trim() !== '')
+  );
+
+  const result = safeParse(EnvConfigSchema, vars);
+  if (!result.success) {
+    const { root = [], nested = {} } = flatten<typeof EnvConfigSchema>(result.issues);
+    throw new ConfigError([
+      ...root,
+      ...Object.entries(nested).flatMap(([path, messages]) =>
+        (messages ?? []).map(message => `${path}: ${message}`)
+      )
+    ]);
+  }
+
+  return toIssuerConfig(result.output);
+}
+
+// Env is the same object for every request an isolate serves, so it is
+// validated once rather than per request
+const configCache = new WeakMap<object, IssuerConfig>();
+
+/**
+ * Validated settings for this Env, parsed on first use
+ */
+export function loadIssuerConfig(env: Env): IssuerConfig {
+  let config = configCache.get(env);
+  if (!config) {
+    config = parseIssuerConfig(env);
+    configCache.set(env, config);
+  }
+  return config;
+}
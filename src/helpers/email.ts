@@ -0,0 +1,241 @@
+/**
+ * Email Delivery
+ * Templated messages with pluggable delivery providers
+ */
+
+import type { EmailSettings } from './config';
+
+export type EmailTemplateName = 'verification' | 'password_reset' | 'new_device';
+
+export interface EmailTemplateData {
+  verification: { code: string };
+  password_reset: { code: string };
+  new_device: { device: string | null; ipAddress: string; time: string };
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  template?: EmailTemplateName;
+}
+
+export interface OutboxMessage extends EmailMessage {
+  id: string;
+  created_at: string;
+}
+
+/**
+ * Delivery backend for rendered messages
+ */
+export interface EmailProvider {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface RenderOptions {
+  appName: string;
+}
+
+/**
+ * Escape a value for interpolation into HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Wrap message paragraphs in a minimal HTML layout
+ */
+function layout(appName: string, paragraphs: string[]): string {
+  return `<!doctype html>
+<html>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #222; max-width: 480px; margin: 0 auto; padding: 24px;">
+    <h2 style="margin-top: 0;">${escapeHtml(appName)}</h2>
+    ${paragraphs.map(paragraph => `<p>${paragraph}</p>`).join('\n    ')}
+  </body>
+</html>`;
+}
+
+/**
+ * Render a template to subject, HTML and plain text bodies
+ */
+export function renderEmail<T extends EmailTemplateName>(
+  template: T,
+  data: EmailTemplateData[T],
+  options: RenderOptions
+): Omit<EmailMessage, 'to'> {
+  const { appName } = options;
+
+  switch (template) {
+    case 'verification': {
+      const { code } = data as EmailTemplateData['verification'];
+      return {
+        template,
+        subject: `Your ${appName} verification code`,
+        text: `Your ${appName} verification code is ${code}.\n\nIf you did not request this code, you can ignore this email.`,
+        html: layout(appName, [
+          'Your verification code is:',
+          `<strong style="font-size: 24px; letter-spacing: 4px;">${escapeHtml(code)}</strong>`,
+          'If you did not request this code, you can ignore this email.'
+        ])
+      };
+    }
+
+    case 'password_reset': {
+      const { code } = data as EmailTemplateData['password_reset'];
+      return {
+        template,
+        subject: `Reset your ${appName} password`,
+        text: `Use code ${code} to reset your ${appName} password.\n\nIf you did not ask to reset your password, you can ignore this email; your password has not changed.`,
+        html: layout(appName, [
+          'Use this code to reset your password:',
+          `<strong style="font-size: 24px; letter-spacing: 4px;">${escapeHtml(code)}</strong>`,
+          'If you did not ask to reset your password, you can ignore this email; your password has not changed.'
+        ])
+      };
+    }
+
+    case 'new_device': {
+      const { device, ipAddress, time } = data as EmailTemplateData['new_device'];
+      const deviceName = device || 'an unrecognized device';
+      return {
+        template,
+        subject: `New sign-in to your ${appName} account`,
+        text: `Your ${appName} account was signed in to from ${deviceName} (IP ${ipAddress}) at ${time}.\n\nIf this was not you, sign out of all sessions and change your password.`,
+        html: layout(appName, [
+          `Your account was signed in to from <strong>${escapeHtml(deviceName)}</strong> (IP ${escapeHtml(ipAddress)}) at ${escapeHtml(time)}.`,
+          'If this was not you, sign out of all sessions and change your password.'
+        ])
+      };
+    }
+
+    default:
+      throw new Error(`Unknown email template: ${template}`);
+  }
+}
+
+export interface HttpEmailProviderOptions {
+  endpoint: string;
+  apiKey: string;
+  from: string;
+  /**
+   * Build the provider's request body. Defaults to the Resend/Postmark style
+   * { from, to, subject, html, text } JSON payload.
+   */
+  formatBody?: (message: EmailMessage, from: string) => unknown;
+}
+
+/**
+ * Provider for HTTP email APIs that accept a JSON POST with a bearer key
+ */
+export class HttpEmailProvider implements EmailProvider {
+  private options: HttpEmailProviderOptions;
+
+  constructor(options: HttpEmailProviderOptions) {
+    this.options = options;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const { endpoint, apiKey, from, formatBody } = this.options;
+    const body = formatBody
+      ? formatBody(message, from)
+      : { from, to: message.to, subject: message.subject, html: message.html, text: message.text };
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Email provider responded with status ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+const OUTBOX_PREFIX = 'outbox:';
+const OUTBOX_TTL_SECONDS = 60 * 60 * 24;
+
+/**
+ * Local outbox that stores messages in KV instead of sending them, so flows
+ * can be tested offline. Messages expire after a day.
+ */
+export class OutboxEmailProvider implements EmailProvider {
+  private namespace: KVNamespace;
+
+  constructor(namespace: KVNamespace) {
+    this.namespace = namespace;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const createdAt = new Date().toISOString();
+    const id = crypto.randomUUID();
+    const stored: OutboxMessage = { ...message, id, created_at: createdAt };
+
+    // Timestamp prefix keeps KV list results in send order
+    await this.namespace.put(`${OUTBOX_PREFIX}${createdAt}:${id}`, JSON.stringify(stored), {
+      expirationTtl: OUTBOX_TTL_SECONDS
+    });
+  }
+
+  /**
+   * List stored messages, newest first, optionally for a single recipient
+   */
+  async list(to?: string): Promise<OutboxMessage[]> {
+    const { keys } = await this.namespace.list({ prefix: OUTBOX_PREFIX });
+    const messages = await Promise.all(
+      keys.map(key => this.namespace.get<OutboxMessage>(key.name, 'json'))
+    );
+
+    return messages
+      .filter((message): message is OutboxMessage => !!message && (!to || message.to === to))
+      .reverse();
+  }
+
+  /**
+   * Delete all stored messages
+   */
+  async clear(): Promise<number> {
+    const { keys } = await this.namespace.list({ prefix: OUTBOX_PREFIX });
+    await Promise.all(keys.map(key => this.namespace.delete(key.name)));
+    return keys.length;
+  }
+}
+
+/**
+ * Renders templates and hands them to a provider
+ */
+export class Mailer {
+  private provider: EmailProvider;
+  private options: RenderOptions;
+
+  constructor(provider: EmailProvider, options: RenderOptions) {
+    this.provider = provider;
+    this.options = options;
+  }
+
+  async send<T extends EmailTemplateName>(to: string, template: T, data: EmailTemplateData[T]): Promise<void> {
+    await this.provider.send({ to, ...renderEmail(template, data, this.options) });
+  }
+}
+
+/**
+ * Pick the email provider from the validated issuer settings.
+ * Without an HTTP provider mail is captured in the outbox and never sent.
+ */
+export function createEmailProvider(settings: EmailSettings, storage: KVNamespace): EmailProvider {
+  if (settings.provider === 'http' && settings.http) {
+    return new HttpEmailProvider(settings.http);
+  }
+
+  return new OutboxEmailProvider(storage);
+}
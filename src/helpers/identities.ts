@@ -0,0 +1,318 @@
+/**
+ * Linked Identities
+ * Map provider logins to users through the user_identities table
+ */
+
+import { Storage, type StorageAdapter } from '@openauthjs/openauth/storage/storage';
+import type { ProviderProfile, SocialProviderName } from './social-providers';
+
+export type IdentityProvider = SocialProviderName | 'password';
+
+export interface UserIdentity {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  provider: IdentityProvider;
+  provider_subject: string;
+  email: string | null;
+  created_at: string;
+  last_used_at: string;
+}
+
+/**
+ * A completed login with any provider, including password
+ */
+export interface LoginIdentity extends Omit<ProviderProfile, 'provider'> {
+  provider: IdentityProvider;
+}
+
+export interface IdentityError {
+  code: 'EMAIL_REQUIRED' | 'EMAIL_UNVERIFIED' | 'ACCOUNT_EXISTS' | 'IDENTITY_IN_USE' | 'LAST_LOGIN_METHOD';
+  message: string;
+}
+
+// created is set when the login registered a new user
+export type IdentityResult = { userId: string; created?: boolean } | { error: IdentityError };
+
+export interface LinkIntent {
+  tenantId: string;
+  userId: string;
+  provider: SocialProviderName;
+  clientId: string;
+  redirectUri: string;
+}
+
+const LINK_INTENT_PREFIX = 'link:';
+export const LINK_INTENT_TTL_SECONDS = 60 * 10;
+const LINK_COOKIE = 'openauth_link';
+
+/**
+ * Identity for a password login. The password provider verifies the email
+ * with a code, so the address is the subject and is always verified.
+ */
+export function passwordIdentity(email: string): LoginIdentity {
+  const normalized = email.toLowerCase();
+  return {
+    provider: 'password',
+    subject: normalized,
+    email: normalized,
+    email_verified: true,
+    first_name: null,
+    last_name: null,
+    avatar_url: null
+  };
+}
+
+/**
+ * Statement recording a login against a user: bump last_login and take any
+ * profile fields the provider supplied
+ */
+function recordLoginStatement(db: D1Database, userId: string, login: LoginIdentity): D1PreparedStatement {
+  return db.prepare(
+    `UPDATE user SET
+       first_name = COALESCE(?, first_name),
+       last_name = COALESCE(?, last_name),
+       avatar_url = COALESCE(?, avatar_url),
+       last_login = CURRENT_TIMESTAMP
+     WHERE id = ?`
+  ).bind(login.first_name, login.last_name, login.avatar_url, userId);
+}
+
+function insertIdentityStatement(
+  db: D1Database,
+  tenantId: string,
+  userId: string,
+  login: LoginIdentity
+): D1PreparedStatement {
+  return db.prepare(
+    `INSERT INTO user_identities (tenant_id, user_id, provider, provider_subject, email, email_verified)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).bind(tenantId, userId, login.provider, login.subject, login.email, login.email_verified === true ? 1 : 0);
+}
+
+/**
+ * Find the tenant's user an identity is linked to
+ */
+export async function findIdentityUser(
+  db: D1Database,
+  tenantId: string,
+  provider: IdentityProvider,
+  subject: string
+): Promise<string | null> {
+  const row = await db.prepare(
+    `SELECT user_id FROM user_identities WHERE tenant_id = ? AND provider = ? AND provider_subject = ?`
+  )
+    .bind(tenantId, provider, subject)
+    .first<{ user_id: string }>();
+  return row?.user_id ?? null;
+}
+
+/**
+ * Whether a user's email is backed by a verified identity. Accounts from
+ * before identities were recorded have none and were registered with a
+ * verified password login.
+ */
+async function hasVerifiedEmail(db: D1Database, userId: string): Promise<boolean> {
+  const row = await db.prepare(
+    `SELECT COUNT(*) AS identities, COALESCE(MAX(email_verified), 0) AS verified
+     FROM user_identities WHERE user_id = ?`
+  )
+    .bind(userId)
+    .first<{ identities: number; verified: number }>();
+  return !row || row.identities === 0 || row.verified === 1;
+}
+
+/**
+ * Resolve a login to one of the tenant's users. Known identities sign in
+ * directly. Otherwise the provider must have verified the email: it then
+ * links to the tenant's existing account with that email, if that account's
+ * email is verified too, or creates a new account in the tenant.
+ */
+export async function resolveLoginUser(db: D1Database, tenantId: string, login: LoginIdentity): Promise<IdentityResult> {
+  const linkedUserId = await findIdentityUser(db, tenantId, login.provider, login.subject);
+  if (linkedUserId) {
+    await db.batch([
+      recordLoginStatement(db, linkedUserId, login),
+      db.prepare(
+        `UPDATE user_identities SET
+           last_used_at = CURRENT_TIMESTAMP,
+           email = COALESCE(?, email),
+           email_verified = MAX(email_verified, ?)
+         WHERE tenant_id = ? AND provider = ? AND provider_subject = ?`
+      ).bind(login.email, login.email_verified === true ? 1 : 0, tenantId, login.provider, login.subject)
+    ]);
+    return { userId: linkedUserId };
+  }
+
+  if (!login.email) {
+    return {
+      error: { code: 'EMAIL_REQUIRED', message: 'Your account does not share an email address' }
+    };
+  }
+  // An account keyed on an unverified email could be claimed by whoever
+  // registered that address at the provider, before its owner signs up
+  if (login.email_verified !== true) {
+    return {
+      error: {
+        code: 'EMAIL_UNVERIFIED',
+        message: login.email_verified === false
+          ? 'Verify your email address with the provider first'
+          : `${login.provider} does not confirm your email address; sign up with your email, then link ${login.provider} from your account settings`
+      }
+    };
+  }
+
+  const existing = await db.prepare(`SELECT id FROM user WHERE tenant_id = ? AND lower(email) = lower(?)`)
+    .bind(tenantId, login.email)
+    .first<{ id: string }>();
+
+  if (existing) {
+    // Only link into an account whose own email is verified, so an account
+    // made from an unconfirmed address cannot take over the real owner's logins
+    if (!(await hasVerifiedEmail(db, existing.id))) {
+      return {
+        error: {
+          code: 'ACCOUNT_EXISTS',
+          message: `An account with this email already exists; sign in to it and link ${login.provider} from your account settings`
+        }
+      };
+    }
+
+    await db.batch([
+      insertIdentityStatement(db, tenantId, existing.id, login),
+      recordLoginStatement(db, existing.id, login)
+    ]);
+    return { userId: existing.id };
+  }
+
+  const userId = crypto.randomUUID().replace(/-/g, '');
+  await db.batch([
+    db.prepare(
+      `INSERT INTO user (id, tenant_id, email, first_name, last_name, avatar_url, last_login)
+       VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`
+    ).bind(userId, tenantId, login.email, login.first_name, login.last_name, login.avatar_url),
+    insertIdentityStatement(db, tenantId, userId, login)
+  ]);
+  return { userId, created: true };
+}
+
+/**
+ * Link a login to a signed-in user of the tenant, refusing identities already
+ * linked to someone else
+ */
+export async function linkIdentity(
+  db: D1Database,
+  tenantId: string,
+  userId: string,
+  login: LoginIdentity
+): Promise<IdentityResult> {
+  const linkedUserId = await findIdentityUser(db, tenantId, login.provider, login.subject);
+  if (linkedUserId && linkedUserId !== userId) {
+    return {
+      error: { code: 'IDENTITY_IN_USE', message: `This ${login.provider} account is linked to another user` }
+    };
+  }
+
+  await db.batch([
+    linkedUserId
+      ? db.prepare(
+          `UPDATE user_identities SET last_used_at = CURRENT_TIMESTAMP
+           WHERE tenant_id = ? AND provider = ? AND provider_subject = ?`
+        ).bind(tenantId, login.provider, login.subject)
+      : insertIdentityStatement(db, tenantId, userId, login),
+    recordLoginStatement(db, userId, login)
+  ]);
+  return { userId };
+}
+
+/**
+ * List a user's linked identities
+ */
+export async function listIdentities(db: D1Database, userId: string): Promise<UserIdentity[]> {
+  const { results } = await db.prepare(
+    `SELECT * FROM user_identities WHERE user_id = ? ORDER BY created_at ASC`
+  )
+    .bind(userId)
+    .all<UserIdentity>();
+  return results;
+}
+
+/**
+ * Unlink one of a user's identities. Unlinking a password identity also
+ * deletes the stored password, from the user's tenant storage, so it cannot
+ * sign in again by email. Returns the removed identity, or null if it was
+ * not found.
+ */
+export async function unlinkIdentity(
+  db: D1Database,
+  storage: StorageAdapter,
+  userId: string,
+  identityId: string
+): Promise<{ identity: UserIdentity } | { error: IdentityError } | null> {
+  const identities = await listIdentities(db, userId);
+  const identity = identities.find(candidate => candidate.id === identityId);
+  if (!identity) return null;
+
+  if (identities.length <= 1) {
+    return {
+      error: { code: 'LAST_LOGIN_METHOD', message: 'Link another login method before removing this one' }
+    };
+  }
+
+  await db.prepare(`DELETE FROM user_identities WHERE id = ? AND user_id = ?`)
+    .bind(identityId, userId)
+    .run();
+
+  if (identity.provider === 'password') {
+    await Storage.remove(storage, ['email', identity.provider_subject, 'password']);
+  }
+
+  return { identity };
+}
+
+/**
+ * Store a one-time intent to link a provider to a signed-in user
+ */
+export async function createLinkIntent(storage: KVNamespace, intent: LinkIntent): Promise<string> {
+  const token = crypto.randomUUID();
+  await storage.put(`${LINK_INTENT_PREFIX}${token}`, JSON.stringify(intent), {
+    expirationTtl: LINK_INTENT_TTL_SECONDS
+  });
+  return token;
+}
+
+/**
+ * Read a link intent without consuming it
+ */
+export async function getLinkIntent(storage: KVNamespace, token: string): Promise<LinkIntent | null> {
+  return storage.get<LinkIntent>(`${LINK_INTENT_PREFIX}${token}`, 'json');
+}
+
+/**
+ * Read and delete a link intent
+ */
+export async function consumeLinkIntent(storage: KVNamespace, token: string): Promise<LinkIntent | null> {
+  const key = `${LINK_INTENT_PREFIX}${token}`;
+  const intent = await storage.get<LinkIntent>(key, 'json');
+  if (intent) {
+    await storage.delete(key);
+  }
+  return intent;
+}
+
+/**
+ * Set-Cookie value carrying a link intent through the provider round trip.
+ * Matches the issuer's own cookies so form_post providers send it back.
+ */
+export function linkIntentCookie(token: string, requestUrl: string): string {
+  const crossSite = requestUrl.startsWith('https://') ? '; Secure; SameSite=None' : '';
+  return `${LINK_COOKIE}=${token}; Path=/; HttpOnly; Max-Age=${LINK_INTENT_TTL_SECONDS}${crossSite}`;
+}
+
+/**
+ * Read the link intent token from a request's cookies
+ */
+export function readLinkIntentCookie(request: Request): string | null {
+  const match = request.headers.get('Cookie')?.match(new RegExp(`(?:^|;\\s*)${LINK_COOKIE}=([^;]+)`));
+  return match?.[1] ?? null;
+}
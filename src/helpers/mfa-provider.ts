@@ -0,0 +1,228 @@
+/**
+ * MFA Challenge Provider
+ * A hidden issuer provider serving the second-factor step of a sign-in.
+ * The success callback sends users who need one to /mfa/authorize, and this
+ * provider completes the sign-in once they enter a code.
+ */
+
+import type { Provider } from '@openauthjs/openauth/provider/provider';
+import { Select, type SelectProps } from '@openauthjs/openauth/ui/select';
+import type { Theme } from '@openauthjs/openauth/ui/theme';
+import {
+  MFA_MAX_ATTEMPTS,
+  confirmTotpEnrollment,
+  deleteMfaChallenge,
+  getMfaChallenge,
+  getMfaStatus,
+  mfaChallengeCookie,
+  otpauthUri,
+  readMfaChallengeCookie,
+  saveMfaChallenge,
+  startTotpEnrollment,
+  verifyMfaCode,
+  type MfaChallenge,
+  type MfaMethod
+} from './mfa';
+
+export interface MfaProviderOptions {
+  db: D1Database;
+  storage: KVNamespace; // Holds the challenges
+  tenantId: string;
+  appName: string;
+  theme: Theme;
+  onEnroll?: (request: Request, challenge: MfaChallenge) => Promise<void>;
+  onFailure?: (request: Request, challenge: MfaChallenge, locked: boolean) => Promise<void>;
+}
+
+/**
+ * Success value the issuer receives once the second factor passed
+ */
+export interface MfaSuccess {
+  challenge: MfaChallenge;
+  method: MfaMethod;
+}
+
+interface PageOptions {
+  title: string;
+  paragraphs: string[];
+  form?: string;
+  status?: number;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Light-mode value of a theme color or logo
+ */
+function lightValue(value: Theme['primary'] | undefined): string | undefined {
+  return typeof value === 'string' ? value : value?.light;
+}
+
+function codeForm(label: string, error?: string): string {
+  return `${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+      <form method="post">
+        <input name="code" autocomplete="one-time-code" inputmode="text" autofocus required placeholder="${escapeHtml(label)}">
+        <button type="submit">Continue</button>
+      </form>`;
+}
+
+export function MfaProvider(options: MfaProviderOptions): Provider<MfaSuccess> {
+  const { db, storage, tenantId, appName, theme } = options;
+
+  const page = ({ title, paragraphs, form = '', status = 200 }: PageOptions): Response => {
+    const primary = lightValue(theme.primary) || '#222';
+    const logo = lightValue(theme.logo);
+    const html = `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(title)} - ${escapeHtml(appName)}</title>
+    ${theme.favicon ? `<link rel="icon" href="${escapeHtml(theme.favicon)}">` : ''}
+    <style>
+      body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #222; max-width: 380px; margin: 0 auto; padding: 48px 24px; }
+      img { max-height: 48px; }
+      input, button { box-sizing: border-box; width: 100%; padding: 12px; margin-top: 12px; font-size: 16px; border-radius: 6px; }
+      input { border: 1px solid #ccc; }
+      button { border: 1px solid #222; background: ${escapeHtml(primary)}; color: #222; cursor: pointer; }
+      code { font-size: 15px; word-break: break-all; }
+      .error { color: #b00020; }
+    </style>
+  </head>
+  <body>
+    ${logo ? `<img src="${escapeHtml(logo)}" alt="${escapeHtml(appName)}">` : ''}
+    <h2>${escapeHtml(title)}</h2>
+    ${paragraphs.map(paragraph => `<p>${paragraph}</p>`).join('\n    ')}
+    ${form}
+  </body>
+</html>`;
+    return new Response(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+  };
+
+  const expired = () => page({
+    title: 'Sign-in expired',
+    paragraphs: ['This sign-in has expired or had too many wrong codes. Go back to the app and sign in again.'],
+    status: 400
+  });
+
+  /**
+   * The request's challenge, if it is still open and belongs to this tenant
+   */
+  const loadChallenge = async (request: Request) => {
+    const token = readMfaChallengeCookie(request);
+    const challenge = token ? await getMfaChallenge(storage, token) : null;
+    return token && challenge?.tenantId === tenantId ? { token, challenge } : null;
+  };
+
+  /**
+   * The code page, with setup instructions while the user has no authenticator
+   */
+  const challengePage = async (challenge: MfaChallenge, error?: string): Promise<Response> => {
+    const status = await getMfaStatus(db, challenge.userId);
+    if (status.enrolled) {
+      return page({
+        title: 'Two-step verification',
+        paragraphs: ['Enter the code from your authenticator app, or one of your recovery codes.'],
+        form: codeForm('123456', error),
+        status: error ? 400 : 200
+      });
+    }
+
+    const secret = await startTotpEnrollment(db, challenge.userId, true);
+    const user = await db.prepare(`SELECT email FROM user WHERE id = ?`)
+      .bind(challenge.userId)
+      .first<{ email: string }>();
+    const uri = otpauthUri(secret!, user?.email ?? challenge.userId, appName);
+    return page({
+      title: 'Set up two-step verification',
+      paragraphs: [
+        'Your account needs a second step to sign in. Add this account to an authenticator app, then enter the code it shows.',
+        `<a href="${escapeHtml(uri)}">Open in authenticator app</a>`,
+        `Or enter this key by hand: <code>${escapeHtml(secret!)}</code>`
+      ],
+      form: codeForm('123456', error),
+      status: error ? 400 : 200
+    });
+  };
+
+  return {
+    type: 'mfa',
+    init(routes, ctx) {
+      routes.get('/authorize', async c => {
+        const open = await loadChallenge(c.req.raw);
+        if (!open) return expired();
+        return challengePage(open.challenge);
+      });
+
+      routes.post('/authorize', async c => {
+        const open = await loadChallenge(c.req.raw);
+        if (!open) return expired();
+        const { token, challenge } = open;
+
+        const finish = async (method: MfaMethod) => {
+          await deleteMfaChallenge(storage, token);
+          c.header('Set-Cookie', mfaChallengeCookie(token, c.req.url, 0), { append: true });
+          return ctx.success(c, { challenge, method });
+        };
+
+        // Verified while enrolling; this is the Continue after the recovery codes
+        if (challenge.verified) return finish(challenge.verified);
+
+        const form = await c.req.formData();
+        const code = form.get('code')?.toString().trim() ?? '';
+        const status = await getMfaStatus(db, challenge.userId);
+        if (status.enrolled) {
+          const method = code ? await verifyMfaCode(db, challenge.userId, code) : null;
+          if (method) return finish(method);
+        } else {
+          const recoveryCodes = code ? await confirmTotpEnrollment(db, challenge.userId, code) : null;
+          if (recoveryCodes) {
+            challenge.verified = 'totp';
+            await saveMfaChallenge(storage, token, challenge);
+            await options.onEnroll?.(c.req.raw, challenge);
+            return page({
+              title: 'Save your recovery codes',
+              paragraphs: [
+                'Each of these codes signs you in once if you lose your authenticator. Store them somewhere safe; they will not be shown again.',
+                `<code>${recoveryCodes.map(escapeHtml).join('<br>')}</code>`
+              ],
+              form: `<form method="post"><button type="submit">Continue</button></form>`
+            });
+          }
+        }
+
+        challenge.attempts++;
+        const locked = challenge.attempts >= MFA_MAX_ATTEMPTS;
+        await options.onFailure?.(c.req.raw, challenge, locked);
+        if (locked) {
+          await deleteMfaChallenge(storage, token);
+          return expired();
+        }
+        await saveMfaChallenge(storage, token, challenge);
+        return challengePage(challenge, 'That code is not valid. Try again.');
+      });
+    }
+  };
+}
+
+/**
+ * Provider picker that leaves out the MFA step, which only continues a
+ * sign-in, and goes straight to the provider when only one is left
+ */
+export function MfaSelect(props: SelectProps = {}) {
+  const select = Select({ ...props, providers: { ...props.providers, mfa: { hide: true } } });
+  return async (providers: Record<string, string>, req: Request): Promise<Response> => {
+    const visible = Object.keys(providers).filter(name => providers[name] !== 'mfa');
+    if (visible.length === 1) {
+      return Response.redirect(new URL(`/${visible[0]}/authorize`, req.url).toString(), 302);
+    }
+    return select(providers, req);
+  };
+}
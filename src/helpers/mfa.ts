@@ -0,0 +1,369 @@
+/**
+ * Multi-Factor Authentication
+ * TOTP authenticators (RFC 6238), hashed recovery codes and the sign-in
+ * challenges that ask for them
+ */
+
+import type { RbacPolicy } from './rbac';
+import type { IdentityProvider } from './identities';
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Steps of clock drift accepted either side of now
+const TOTP_SECRET_BYTES = 20;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export const MFA_CHALLENGE_TTL_SECONDS = 60 * 10;
+export const MFA_MAX_ATTEMPTS = 5;
+const MFA_CHALLENGE_PREFIX = 'mfa:challenge:';
+const MFA_COOKIE = 'openauth_mfa';
+
+export type MfaMethod = 'totp' | 'recovery_code';
+
+export interface MfaStatus {
+  enrolled: boolean; // Has a confirmed authenticator
+  pending: boolean; // Enrollment started but no code confirmed yet
+  confirmed_at: string | null;
+  recovery_codes_remaining: number;
+}
+
+/**
+ * A sign-in whose primary login passed and that still needs a second factor
+ */
+export interface MfaChallenge {
+  tenantId: string;
+  userId: string;
+  provider: IdentityProvider; // The primary login
+  attempts: number;
+  verified?: MfaMethod; // Set once a code is accepted, before the recovery codes are shown
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/=+$/, '');
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of clean) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) throw new Error('Invalid base32 character');
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Compare two strings without short-circuiting on the first difference
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Generate a random base32 TOTP secret
+ */
+export function generateTotpSecret(): string {
+  const bytes = new Uint8Array(TOTP_SECRET_BYTES);
+  crypto.getRandomValues(bytes);
+  return base32Encode(bytes);
+}
+
+/**
+ * otpauth:// URI for authenticator apps, usually shown as a QR code
+ */
+export function otpauthUri(secret: string, account: string, issuer: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_PERIOD_SECONDS.toString()
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+/**
+ * HOTP value (RFC 4226) for a counter
+ */
+async function hotp(key: CryptoKey, counter: number): Promise<string> {
+  const message = new ArrayBuffer(8);
+  new DataView(message).setBigUint64(0, BigInt(counter));
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Check a TOTP code against a secret, allowing for clock drift.
+ * Returns the time step the code belongs to, or null if it does not match.
+ */
+export async function verifyTotpCode(secret: string, code: string, now = Date.now()): Promise<number | null> {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const current = Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (timingSafeEqual(await hotp(key, step), code)) return step;
+  }
+  return null;
+}
+
+/**
+ * Recovery codes are compared case- and separator-insensitively
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+async function hashRecoveryCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Generate a recovery code like "k7q2m-x9d4a"
+ */
+function generateRecoveryCode(): string {
+  const bytes = new Uint8Array(10);
+  crypto.getRandomValues(bytes);
+  const chars = Array.from(bytes, byte => BASE32_ALPHABET[byte & 31].toLowerCase()).join('');
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+/**
+ * Whether the user has an authenticator and how many recovery codes are left
+ */
+export async function getMfaStatus(db: D1Database, userId: string): Promise<MfaStatus> {
+  const [mfa, codes] = await db.batch<Record<string, any>>([
+    db.prepare(`SELECT confirmed_at FROM user_mfa WHERE user_id = ?`).bind(userId),
+    db.prepare(`SELECT COUNT(*) AS remaining FROM user_recovery_codes WHERE user_id = ? AND used_at IS NULL`)
+      .bind(userId)
+  ]);
+  const row = mfa.results[0];
+  return {
+    enrolled: !!row?.confirmed_at,
+    pending: !!row && !row.confirmed_at,
+    confirmed_at: row?.confirmed_at ?? null,
+    recovery_codes_remaining: codes.results[0]?.remaining ?? 0
+  };
+}
+
+/**
+ * Check whether a role must sign in with a second factor. Roles inheriting
+ * from a required role are required too.
+ */
+export function isMfaRequired(policy: RbacPolicy, role: string | null | undefined, requiredRoles: string[]): boolean {
+  return requiredRoles.some(required => policy.hasRole(role ?? undefined, required));
+}
+
+/**
+ * Start enrolling a TOTP authenticator and return its secret. An unconfirmed
+ * secret is replaced unless keepPending is set. Returns null if the user
+ * already has a confirmed authenticator.
+ */
+export async function startTotpEnrollment(
+  db: D1Database,
+  userId: string,
+  keepPending = false
+): Promise<string | null> {
+  const existing = await db.prepare(`SELECT totp_secret, confirmed_at FROM user_mfa WHERE user_id = ?`)
+    .bind(userId)
+    .first<{ totp_secret: string; confirmed_at: string | null }>();
+  if (existing?.confirmed_at) return null;
+  if (existing && keepPending) return existing.totp_secret;
+
+  const secret = generateTotpSecret();
+  await db.prepare(
+    `INSERT INTO user_mfa (user_id, totp_secret) VALUES (?, ?)
+     ON CONFLICT (user_id) DO UPDATE SET totp_secret = excluded.totp_secret, updated_at = CURRENT_TIMESTAMP
+     WHERE confirmed_at IS NULL`
+  )
+    .bind(userId, secret)
+    .run();
+  return secret;
+}
+
+/**
+ * Replace a user's recovery codes. The codes are returned only once; only
+ * their hashes are stored.
+ */
+export async function regenerateRecoveryCodes(db: D1Database, userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  const hashes = await Promise.all(codes.map(hashRecoveryCode));
+  await db.batch([
+    db.prepare(`DELETE FROM user_recovery_codes WHERE user_id = ?`).bind(userId),
+    ...hashes.map(hash =>
+      db.prepare(`INSERT INTO user_recovery_codes (user_id, code_hash) VALUES (?, ?)`).bind(userId, hash)
+    )
+  ]);
+  return codes;
+}
+
+/**
+ * Confirm a pending authenticator with a code from it. Returns the user's new
+ * recovery codes, or null if the code is wrong or nothing is pending.
+ */
+export async function confirmTotpEnrollment(db: D1Database, userId: string, code: string): Promise<string[] | null> {
+  const pending = await db.prepare(
+    `SELECT totp_secret FROM user_mfa WHERE user_id = ? AND confirmed_at IS NULL`
+  )
+    .bind(userId)
+    .first<{ totp_secret: string }>();
+  if (!pending) return null;
+
+  const step = await verifyTotpCode(pending.totp_secret, code.replace(/\s/g, ''));
+  if (step === null) return null;
+
+  const result = await db.prepare(
+    `UPDATE user_mfa SET confirmed_at = CURRENT_TIMESTAMP, last_used_step = ?, updated_at = CURRENT_TIMESTAMP
+     WHERE user_id = ? AND confirmed_at IS NULL`
+  )
+    .bind(step, userId)
+    .run();
+  if (result.meta.changes === 0) return null;
+
+  return regenerateRecoveryCodes(db, userId);
+}
+
+/**
+ * Check a second factor: a code from the user's authenticator, or one of
+ * their unused recovery codes, which is then spent. A TOTP code is accepted
+ * once. Returns how the user verified, or null.
+ */
+export async function verifyMfaCode(db: D1Database, userId: string, code: string): Promise<MfaMethod | null> {
+  const compact = code.replace(/\s/g, '');
+
+  if (compact.length === TOTP_DIGITS && /^\d+$/.test(compact)) {
+    const row = await db.prepare(
+      `SELECT totp_secret, last_used_step FROM user_mfa WHERE user_id = ? AND confirmed_at IS NOT NULL`
+    )
+      .bind(userId)
+      .first<{ totp_secret: string; last_used_step: number | null }>();
+    if (!row) return null;
+
+    const step = await verifyTotpCode(row.totp_secret, compact);
+    if (step === null) return null;
+
+    // Conditional on the last step so two requests cannot both spend a code
+    const result = await db.prepare(
+      `UPDATE user_mfa SET last_used_step = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = ? AND (last_used_step IS NULL OR last_used_step < ?)`
+    )
+      .bind(step, userId, step)
+      .run();
+    return result.meta.changes > 0 ? 'totp' : null;
+  }
+
+  const result = await db.prepare(
+    `UPDATE user_recovery_codes SET used_at = CURRENT_TIMESTAMP
+     WHERE id = (
+       SELECT id FROM user_recovery_codes WHERE user_id = ? AND code_hash = ? AND used_at IS NULL LIMIT 1
+     )`
+  )
+    .bind(userId, await hashRecoveryCode(compact))
+    .run();
+  return result.meta.changes > 0 ? 'recovery_code' : null;
+}
+
+/**
+ * Remove a user's authenticator and recovery codes
+ */
+export async function disableMfa(db: D1Database, userId: string): Promise<void> {
+  await db.batch([
+    db.prepare(`DELETE FROM user_recovery_codes WHERE user_id = ?`).bind(userId),
+    db.prepare(`DELETE FROM user_mfa WHERE user_id = ?`).bind(userId)
+  ]);
+}
+
+/**
+ * Authentication method references (RFC 8176) for a sign-in: `pwd` or `fed`
+ * for the primary login, plus `otp` and `mfa` once a second factor passed
+ */
+export function authenticationMethods(provider: IdentityProvider, mfa: MfaMethod | null): string[] {
+  const primary = provider === 'password' ? 'pwd' : 'fed';
+  return mfa ? [primary, 'otp', 'mfa'] : [primary];
+}
+
+/**
+ * Store a challenge for a sign-in awaiting its second factor
+ */
+export async function createMfaChallenge(storage: KVNamespace, challenge: MfaChallenge): Promise<string> {
+  const token = crypto.randomUUID();
+  await saveMfaChallenge(storage, token, challenge);
+  return token;
+}
+
+export async function getMfaChallenge(storage: KVNamespace, token: string): Promise<MfaChallenge | null> {
+  return storage.get<MfaChallenge>(`${MFA_CHALLENGE_PREFIX}${token}`, 'json');
+}
+
+export async function saveMfaChallenge(storage: KVNamespace, token: string, challenge: MfaChallenge): Promise<void> {
+  await storage.put(`${MFA_CHALLENGE_PREFIX}${token}`, JSON.stringify(challenge), {
+    expirationTtl: MFA_CHALLENGE_TTL_SECONDS
+  });
+}
+
+export async function deleteMfaChallenge(storage: KVNamespace, token: string): Promise<void> {
+  await storage.delete(`${MFA_CHALLENGE_PREFIX}${token}`);
+}
+
+/**
+ * Set-Cookie value carrying a challenge from the primary login to the MFA
+ * step. Matches the issuer's own cookies so it survives form_post providers.
+ */
+export function mfaChallengeCookie(token: string, requestUrl: string, maxAge = MFA_CHALLENGE_TTL_SECONDS): string {
+  const crossSite = requestUrl.startsWith('https://') ? '; Secure; SameSite=None' : '';
+  return `${MFA_COOKIE}=${token}; Path=/; HttpOnly; Max-Age=${maxAge}${crossSite}`;
+}
+
+/**
+ * Read the challenge token from a request's cookies
+ */
+export function readMfaChallengeCookie(request: Request): string | null {
+  const match = request.headers.get('Cookie')?.match(new RegExp(`(?:^|;\\s*)${MFA_COOKIE}=([^;]+)`));
+  return match?.[1] ?? null;
+}
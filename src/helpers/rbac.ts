@@ -0,0 +1,118 @@
+/**
+ * Role-Based Access Control
+ * Single evaluator for role hierarchy and permission checks
+ */
+
+export interface RoleDefinition {
+  parent?: string | null; // Role this one inherits from
+  permissions: string[];
+}
+
+export type RoleDefinitions = Record<string, RoleDefinition>;
+
+export interface RbacPolicy {
+  roles: RoleDefinitions;
+  hasRole(userRole: string | undefined, requiredRole: string): boolean;
+  hasAnyRole(userRole: string | undefined, roles: string[]): boolean;
+  hasPermission(userRole: string | undefined, permission: string): boolean;
+  getPermissions(userRole: string | undefined): string[];
+}
+
+/**
+ * Built-in hierarchy, mirrored by the seed data in migration 0004
+ */
+export const DEFAULT_ROLE_DEFINITIONS: RoleDefinitions = {
+  customer: {
+    parent: null,
+    permissions: ['profile:read', 'profile:write', 'orders:read', 'orders:create']
+  },
+  vendor: {
+    parent: 'customer',
+    permissions: ['products:write', 'orders:fulfill']
+  },
+  admin: {
+    parent: 'vendor',
+    permissions: ['*']
+  }
+};
+
+/**
+ * Check whether a granted permission covers the required one.
+ * Supports '*' and trailing wildcards such as 'orders:*'.
+ */
+function permissionMatches(granted: string, required: string): boolean {
+  if (granted === '*' || granted === required) return true;
+  if (granted.endsWith(':*')) {
+    return required.startsWith(granted.slice(0, -1));
+  }
+  return false;
+}
+
+/**
+ * Create a policy evaluator from role definitions
+ */
+export function createRbacPolicy(roles: RoleDefinitions): RbacPolicy {
+  // Role itself followed by every role it inherits from
+  const lineage = (role: string | undefined): string[] => {
+    const result: string[] = [];
+    let current = role;
+    while (current && roles[current] && !result.includes(current)) {
+      result.push(current);
+      current = roles[current].parent || undefined;
+    }
+    return result;
+  };
+
+  const getPermissions = (userRole: string | undefined): string[] => {
+    const permissions = new Set<string>();
+    for (const role of lineage(userRole)) {
+      roles[role].permissions.forEach(permission => permissions.add(permission));
+    }
+    return Array.from(permissions);
+  };
+
+  const hasRole = (userRole: string | undefined, requiredRole: string): boolean => {
+    return lineage(userRole).includes(requiredRole);
+  };
+
+  return {
+    roles,
+    hasRole,
+    hasAnyRole: (userRole, required) => required.some(role => hasRole(userRole, role)),
+    hasPermission: (userRole, permission) =>
+      getPermissions(userRole).some(granted => permissionMatches(granted, permission)),
+    getPermissions
+  };
+}
+
+export const defaultRbacPolicy = createRbacPolicy(DEFAULT_ROLE_DEFINITIONS);
+
+const POLICY_CACHE_TTL_MS = 5 * 60 * 1000;
+let cachedPolicy: { policy: RbacPolicy; loadedAt: number } | null = null;
+
+/**
+ * Load role definitions from the D1 `roles` and `role_permissions` tables.
+ * The result is cached per isolate.
+ */
+export async function loadRbacPolicy(db: D1Database, cacheTtlMs: number = POLICY_CACHE_TTL_MS): Promise<RbacPolicy> {
+  if (cachedPolicy && Date.now() - cachedPolicy.loadedAt < cacheTtlMs) {
+    return cachedPolicy.policy;
+  }
+
+  const [roleRows, permissionRows] = await db.batch<any>([
+    db.prepare('SELECT name, parent_role FROM roles'),
+    db.prepare('SELECT role, permission FROM role_permissions')
+  ]);
+
+  const roles: RoleDefinitions = {};
+  for (const row of roleRows.results as { name: string; parent_role: string | null }[]) {
+    roles[row.name] = { parent: row.parent_role, permissions: [] };
+  }
+  for (const row of permissionRows.results as { role: string; permission: string }[]) {
+    roles[row.role]?.permissions.push(row.permission);
+  }
+
+  const policy = createRbacPolicy(roles);
+  cachedPolicy = { policy, loadedAt: Date.now() };
+  return policy;
+}
@@ -0,0 +1,189 @@
+/**
+ * Session Tracking Utilities
+ * Read and write the user_sessions table
+ */
+
+import { getClientIP } from './token-validation';
+
+export interface UserSession {
+  id: string;
+  user_id: string;
+  device_info: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  expires_at: string;
+  created_at: string;
+  last_activity: string;
+}
+
+// Sessions expire after this long without a login or token refresh
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+// Minimum gap between last_activity writes for the same session
+const ACTIVITY_UPDATE_INTERVAL_SECONDS = 60;
+
+const SESSION_COLUMNS = 'id, user_id, device_info, ip_address, user_agent, expires_at, created_at, last_activity';
+
+/**
+ * Summarize a user agent as "Browser on OS"
+ */
+export function describeDevice(userAgent: string | null): string | null {
+  if (!userAgent) return null;
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+}
+
+/**
+ * Check whether a login comes from a device the user has not signed in from
+ * before. A user's very first login is not treated as a new device.
+ */
+export async function isNewDevice(db: D1Database, userId: string, request: Request): Promise<boolean> {
+  const device = describeDevice(request.headers.get('User-Agent'));
+  const row = await db.prepare(
+    `SELECT COUNT(*) AS total, SUM(CASE WHEN device_info IS ? THEN 1 ELSE 0 END) AS matching
+     FROM user_sessions WHERE user_id = ?`
+  )
+    .bind(device, userId)
+    .first<{ total: number; matching: number | null }>();
+
+  return !!row && row.total > 0 && !row.matching;
+}
+
+/**
+ * Record a new session for a successful login and return its session token
+ */
+export async function createSession(db: D1Database, userId: string, request: Request): Promise<string> {
+  const sessionToken = crypto.randomUUID();
+  const userAgent = request.headers.get('User-Agent');
+
+  await db.prepare(
+    `INSERT INTO user_sessions (user_id, session_token, device_info, ip_address, user_agent, expires_at)
+     VALUES (?, ?, ?, ?, ?, datetime('now', ?))`
+  )
+    .bind(
+      userId,
+      sessionToken,
+      describeDevice(userAgent),
+      getClientIP(request),
+      userAgent,
+      `+${SESSION_TTL_SECONDS} seconds`
+    )
+    .run();
+
+  return sessionToken;
+}
+
+/**
+ * Extend an active session after a token refresh.
+ * Returns false if the session is revoked, expired or unknown.
+ */
+export async function refreshSession(db: D1Database, sessionToken: string, request: Request): Promise<boolean> {
+  const userAgent = request.headers.get('User-Agent');
+  const result = await db.prepare(
+    `UPDATE user_sessions
+     SET expires_at = datetime('now', ?),
+         last_activity = CURRENT_TIMESTAMP,
+         ip_address = ?,
+         user_agent = COALESCE(?, user_agent),
+         device_info = COALESCE(?, device_info)
+     WHERE session_token = ? AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP`
+  )
+    .bind(
+      `+${SESSION_TTL_SECONDS} seconds`,
+      getClientIP(request),
+      userAgent,
+      describeDevice(userAgent),
+      sessionToken
+    )
+    .run();
+
+  return result.meta.changes > 0;
+}
+
+/**
+ * Check that a session is active and bump its last_activity timestamp
+ */
+export async function touchSession(db: D1Database, sessionToken: string): Promise<boolean> {
+  const session = await db.prepare(
+    `SELECT id, (last_activity < datetime('now', ?)) AS stale FROM user_sessions
+     WHERE session_token = ? AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP`
+  )
+    .bind(`-${ACTIVITY_UPDATE_INTERVAL_SECONDS} seconds`, sessionToken)
+    .first<{ id: string; stale: number }>();
+
+  if (!session) return false;
+
+  if (session.stale) {
+    await db.prepare(`UPDATE user_sessions SET last_activity = CURRENT_TIMESTAMP WHERE id = ?`)
+      .bind(session.id)
+      .run();
+  }
+
+  return true;
+}
+
+/**
+ * Look up the session id for a session token
+ */
+export async function getSessionId(db: D1Database, sessionToken: string): Promise<string | null> {
+  const row = await db.prepare(`SELECT id FROM user_sessions WHERE session_token = ?`)
+    .bind(sessionToken)
+    .first<{ id: string }>();
+  return row?.id ?? null;
+}
+
+/**
+ * List a user's active sessions, most recently used first
+ */
+export async function listActiveSessions(db: D1Database, userId: string): Promise<UserSession[]> {
+  const { results } = await db.prepare(
+    `SELECT ${SESSION_COLUMNS} FROM user_sessions
+     WHERE user_id = ? AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+     ORDER BY last_activity DESC`
+  )
+    .bind(userId)
+    .all<UserSession>();
+  return results;
+}
+
+/**
+ * Revoke one of a user's sessions. Returns false if it was not found.
+ */
+export async function revokeSession(db: D1Database, userId: string, sessionId: string): Promise<boolean> {
+  const result = await db.prepare(
+    `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND user_id = ? AND revoked_at IS NULL`
+  )
+    .bind(sessionId, userId)
+    .run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Revoke all of a user's active sessions and return how many were revoked
+ */
+export async function revokeAllSessions(db: D1Database, userId: string): Promise<number> {
+  const result = await db.prepare(
+    `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP
+     WHERE user_id = ? AND revoked_at IS NULL`
+  )
+    .bind(userId)
+    .run();
+  return result.meta.changes;
+}
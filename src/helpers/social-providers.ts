@@ -0,0 +1,203 @@
+/**
+ * Social Login Providers
+ * Providers enabled from Env secrets and mapping of their profiles to users
+ */
+
+import { AppleOidcProvider } from '@openauthjs/openauth/provider/apple';
+import { GithubProvider } from '@openauthjs/openauth/provider/github';
+import { GoogleProvider } from '@openauthjs/openauth/provider/google';
+import { MicrosoftProvider } from '@openauthjs/openauth/provider/microsoft';
+import { OidcProvider } from '@openauthjs/openauth/provider/oidc';
+import type { Oauth2Token } from '@openauthjs/openauth/provider/oauth2';
+import type { Provider } from '@openauthjs/openauth/provider/provider';
+import type { ProviderSettings } from './config';
+
+export type SocialProviderName = 'google' | 'github' | 'microsoft' | 'apple' | 'oidc';
+
+/**
+ * Profile fields a provider contributes to the user table
+ */
+export interface ProviderProfile {
+  provider: SocialProviderName;
+  subject: string; // The user's ID at the provider
+  email: string | null;
+  email_verified: boolean | null; // null when the provider does not say
+  first_name: string | null;
+  last_name: string | null;
+  avatar_url: string | null;
+}
+
+/**
+ * Success values the issuer passes for social providers
+ */
+export type SocialProviderSuccess =
+  | { provider: 'google' | 'github' | 'microsoft'; tokenset: Oauth2Token; clientID: string }
+  | { provider: 'apple' | 'oidc'; id: Record<string, any>; clientID: string };
+
+export interface SocialProviders {
+  google: ReturnType<typeof GoogleProvider>;
+  github: ReturnType<typeof GithubProvider>;
+  microsoft: ReturnType<typeof MicrosoftProvider>;
+  apple: ReturnType<typeof AppleOidcProvider>;
+  oidc: ReturnType<typeof OidcProvider>;
+}
+
+/**
+ * Success value the issuer passes for any of `P`'s providers, including
+ * optional ones that are only present when configured
+ */
+export type ProviderSuccess<P> = {
+  [K in keyof P]-?: { provider: K } & (NonNullable<P[K]> extends Provider<infer T> ? T : {});
+}[keyof P];
+
+/**
+ * Build the social providers whose credentials are configured.
+ * A provider without its secrets is left out of the login page entirely,
+ * so every entry of the result is optional.
+ */
+export function createSocialProviders(settings: ProviderSettings): Partial<SocialProviders> {
+  const { google, github, microsoft, apple, oidc } = settings;
+  return {
+    ...(google && {
+      google: GoogleProvider({
+        clientID: google.clientId,
+        clientSecret: google.clientSecret,
+        scopes: ['profile', 'email']
+      })
+    }),
+    ...(github && {
+      github: GithubProvider({
+        clientID: github.clientId,
+        clientSecret: github.clientSecret,
+        scopes: ['read:user', 'user:email']
+      })
+    }),
+    ...(microsoft && {
+      microsoft: MicrosoftProvider({
+        clientID: microsoft.clientId,
+        clientSecret: microsoft.clientSecret,
+        tenant: microsoft.tenant,
+        scopes: ['openid', 'profile', 'email', 'User.Read']
+      })
+    }),
+    // Apple only returns the email in the form_post id_token, so it uses the OIDC flow
+    ...(apple && {
+      apple: AppleOidcProvider({
+        clientID: apple.clientId,
+        scopes: ['name', 'email']
+      })
+    }),
+    ...(oidc && {
+      oidc: OidcProvider({
+        clientID: oidc.clientId,
+        issuer: oidc.issuer,
+        scopes: ['profile', 'email']
+      })
+    })
+  };
+}
+
+/**
+ * GET a provider API with the user's access token
+ */
+async function fetchProviderJson<T>(url: string, accessToken: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Accept': 'application/json',
+      'User-Agent': 'openauth-template' // GitHub rejects requests without one
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Profile request to ${url} failed with status ${response.status}`);
+  }
+  return response.json<T>();
+}
+
+/**
+ * Split a display name into first and last name
+ */
+function splitName(name: string | null | undefined): { first_name: string | null; last_name: string | null } {
+  const parts = (name || '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return { first_name: null, last_name: null };
+  return { first_name: parts[0], last_name: parts.slice(1).join(' ') || null };
+}
+
+/**
+ * Map standard OIDC claims to a profile
+ */
+function profileFromClaims(provider: SocialProviderName, claims: Record<string, any>): ProviderProfile {
+  const fallback = splitName(claims.name);
+  return {
+    provider,
+    subject: String(claims.sub),
+    email: claims.email ?? null,
+    // Apple sends email_verified as the string "true"
+    email_verified: claims.email_verified === undefined ? null : String(claims.email_verified) === 'true',
+    first_name: claims.given_name ?? fallback.first_name,
+    last_name: claims.family_name ?? fallback.last_name,
+    avatar_url: claims.picture ?? null
+  };
+}
+
+/**
+ * Load the signed-in user's profile from the provider they used
+ */
+export async function getProviderProfile(value: SocialProviderSuccess): Promise<ProviderProfile> {
+  switch (value.provider) {
+    case 'google': {
+      const claims = await fetchProviderJson<Record<string, any>>(
+        'https://www.googleapis.com/oauth2/v3/userinfo',
+        value.tokenset.access
+      );
+      return profileFromClaims('google', claims);
+    }
+
+    case 'github': {
+      const [user, emails] = await Promise.all([
+        fetchProviderJson<{ id: number; name: string | null; avatar_url: string | null }>(
+          'https://api.github.com/user',
+          value.tokenset.access
+        ),
+        fetchProviderJson<{ email: string; primary: boolean; verified: boolean }[]>(
+          'https://api.github.com/user/emails',
+          value.tokenset.access
+        )
+      ]);
+      const primary = emails.find(email => email.primary) ?? emails.find(email => email.verified);
+      return {
+        provider: 'github',
+        subject: String(user.id),
+        email: primary?.email ?? null,
+        email_verified: primary?.verified ?? null,
+        ...splitName(user.name),
+        avatar_url: user.avatar_url
+      };
+    }
+
+    case 'microsoft': {
+      const me = await fetchProviderJson<{
+        id: string;
+        givenName: string | null;
+        surname: string | null;
+        mail: string | null;
+        userPrincipalName: string | null;
+      }>('https://graph.microsoft.com/v1.0/me', value.tokenset.access);
+      return {
+        provider: 'microsoft',
+        subject: me.id,
+        email: me.mail ?? me.userPrincipalName,
+        email_verified: null,
+        first_name: me.givenName,
+        last_name: me.surname,
+        // Graph only serves photos as binary, so there is no URL to store
+        avatar_url: null
+      };
+    }
+
+    case 'apple':
+    case 'oidc':
+      return profileFromClaims(value.provider, value.id);
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Tenants
+ * Resolve the storefront brand a request is for, and scope the issuer's
+ * settings and storage to it
+ */
+
+import { safeParse } from 'valibot';
+import type { StorageAdapter } from '@openauthjs/openauth/storage/storage';
+import type { Theme } from '@openauthjs/openauth/ui/theme';
+import { ThemeSchema, type IssuerConfig, type ProviderSettings } from './config';
+import type { SocialProviderName } from './social-providers';
+
+// Tenant for hosts with no tenant of their own. Everything created before
+// tenants existed belongs to it.
+export const DEFAULT_TENANT_ID = 'default';
+
+export interface Tenant {
+  id: string;
+  name: string;
+  app_name: string | null; // Overrides APP_NAME
+  theme: Partial<Theme> | null; // Merged over THEME
+  providers: SocialProviderName[] | null; // null enables every configured provider
+  disabled_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Hostname lookups are cached per isolate so most requests skip D1
+const TENANT_CACHE_TTL_MS = 60 * 1000;
+
+const tenantCache = new Map<string, { tenant: Tenant | null; expiresAt: number }>();
+
+/**
+ * Parse a JSON column, logging and ignoring invalid values so one bad row
+ * does not take a tenant's login page down
+ */
+function parseJsonColumn(tenantId: string, column: string, value: string | null): unknown {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.error(`Ignoring invalid ${column} JSON for tenant ${tenantId}`);
+    return null;
+  }
+}
+
+/**
+ * Convert a D1 row (JSON theme and providers columns) to a Tenant
+ */
+function toTenant(row: Record<string, any>): Tenant {
+  const theme = safeParse(ThemeSchema, parseJsonColumn(row.id, 'theme', row.theme));
+  const providers = parseJsonColumn(row.id, 'providers', row.providers);
+  return {
+    ...row,
+    theme: theme.success ? (theme.output as Partial<Theme>) : null,
+    providers: Array.isArray(providers) ? providers : null
+  } as Tenant;
+}
+
+/**
+ * Get a tenant by id, including disabled ones
+ */
+export async function getTenant(db: D1Database, tenantId: string): Promise<Tenant | null> {
+  const row = await db.prepare(`SELECT * FROM tenants WHERE id = ?`)
+    .bind(tenantId)
+    .first();
+  return row ? toTenant(row) : null;
+}
+
+/**
+ * Host a request was made to, lowercase and without the port. Taken from
+ * the URL Cloudflare routed, never from x-forwarded-host, which any client
+ * can set to another tenant's hostname.
+ */
+export function requestHostname(request: Request): string {
+  return new URL(request.url).hostname.toLowerCase();
+}
+
+/**
+ * Resolve the tenant for a request from its hostname. Hosts without a tenant
+ * of their own get the default tenant. Returns null for a disabled tenant.
+ */
+export async function resolveTenant(db: D1Database, request: Request): Promise<Tenant | null> {
+  const hostname = requestHostname(request);
+  const cached = tenantCache.get(hostname);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.tenant;
+  }
+
+  const row = await db.prepare(
+    `SELECT tenants.* FROM tenants
+     LEFT JOIN tenant_hostnames ON tenant_hostnames.tenant_id = tenants.id AND tenant_hostnames.hostname = ?
+     WHERE tenant_hostnames.hostname IS NOT NULL OR tenants.id = ?
+     ORDER BY tenant_hostnames.hostname IS NULL
+     LIMIT 1`
+  )
+    .bind(hostname, DEFAULT_TENANT_ID)
+    .first();
+
+  const found = row ? toTenant(row) : null;
+  const tenant = found && !found.disabled_at ? found : null;
+  tenantCache.set(hostname, { tenant, expiresAt: Date.now() + TENANT_CACHE_TTL_MS });
+  return tenant;
+}
+
+/**
+ * The issuer's settings as seen by a tenant: its app name and theme over the
+ * Env ones, and only the social providers it enables. Password login is
+ * always available.
+ */
+export function tenantConfig(config: IssuerConfig, tenant: Tenant): IssuerConfig {
+  if (tenant.id === DEFAULT_TENANT_ID && !tenant.app_name && !tenant.theme && !tenant.providers) {
+    return config;
+  }
+
+  const appName = tenant.app_name || config.appName;
+  const { title, ...theme } = tenant.theme ?? {};
+  const providers: ProviderSettings = tenant.providers
+    ? Object.fromEntries(
+        Object.entries(config.providers).filter(([name]) => tenant.providers!.includes(name as SocialProviderName))
+      )
+    : config.providers;
+
+  return {
+    ...config,
+    appName,
+    theme: {
+      ...config.theme,
+      ...theme,
+      title: title || (tenant.app_name ? appName : config.theme.title)
+    },
+    providers
+  };
+}
+
+/**
+ * Scope the issuer's storage to a tenant, so each tenant has its own signing
+ * keys, passwords and refresh tokens. The default tenant keeps the unprefixed
+ * keys it had before tenants existed.
+ */
+export function tenantStorage(storage: StorageAdapter, tenantId: string): StorageAdapter {
+  if (tenantId === DEFAULT_TENANT_ID) return storage;
+
+  const prefix = ['tenant', tenantId];
+  return {
+    get: key => storage.get([...prefix, ...key]),
+    remove: key => storage.remove([...prefix, ...key]),
+    set: (key, value, expiry) => storage.set([...prefix, ...key], value, expiry),
+    async *scan(key) {
+      for await (const [found, value] of storage.scan([...prefix, ...key])) {
+        yield [found.slice(prefix.length), value];
+      }
+    }
+  };
+}
@@ -3,13 +3,19 @@
  * Helper functions for JWT token validation and user data extraction
  */
 
+import { defaultRbacPolicy, type RbacPolicy } from './rbac';
+import { AuthError, type AuthErrorCode } from './auth-errors';
+
 export interface TokenPayload {
   sub: string; // Subject (user ID)
   email?: string;
   name?: string;
   picture?: string;
   role?: string;
-  iat: number; // Issued at
+  mode?: 'access' | 'refresh'; // OpenAuth token mode
+  type?: string; // OpenAuth subject type, e.g. "user"
+  properties?: Record<string, any>; // OpenAuth subject properties
+  iat?: number; // Issued at (OpenAuth does not set it)
   exp: number; // Expires at
   iss: string; // Issuer
   aud: string; // Audience
@@ -19,8 +25,48 @@ export interface ValidationResult {
   valid: boolean;
   payload?: TokenPayload;
   error?: string;
+  expired?: boolean; // Set when the token was otherwise valid but past exp
+}
+
+export interface VerifyTokenOptions {
+  issuer: string;
+  audience: string | string[]; // Client ID(s) the token must be issued to
+  jwksUri?: string; // Defaults to `${issuer}/.well-known/jwks.json`
+  clockTolerance?: number; // Seconds of leeway for exp checks
+}
+
+interface JWK {
+  kid?: string;
+  kty: string;
+  alg?: string;
+  exp?: number; // Seconds since the epoch after which the key is retired
+  [key: string]: unknown;
+}
+
+interface CachedKey {
+  key: CryptoKey;
+  expiresAt: number | null; // From the JWK's exp, in milliseconds
 }
 
+interface CachedKeySet {
+  keys: Map<string, CachedKey>;
+  fetchedAt: number;
+}
+
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+const JWKS_REFETCH_COOLDOWN_MS = 30 * 1000;
+
+const jwksCache = new Map<string, CachedKeySet>();
+const jwksInFlight = new Map<string, Promise<CachedKeySet>>();
+
+const signatureAlgorithms: Record<string, { import: SubtleCryptoImportKeyAlgorithm; verify: string | SubtleCryptoSignAlgorithm }> = {
+  ES256: { import: { name: 'ECDSA', namedCurve: 'P-256' }, verify: { name: 'ECDSA', hash: 'SHA-256' } },
+  ES384: { import: { name: 'ECDSA', namedCurve: 'P-384' }, verify: { name: 'ECDSA', hash: 'SHA-384' } },
+  RS256: { import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verify: 'RSASSA-PKCS1-v1_5' },
+  RS384: { import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' }, verify: 'RSASSA-PKCS1-v1_5' },
+  RS512: { import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' }, verify: 'RSASSA-PKCS1-v1_5' }
+};
+
 /**
  * Parse JWT token without verification (for client-side use)
  * Note: This doesn't verify the signature - use server-side validation for security
@@ -32,14 +78,200 @@ export function parseJWT(token: string): TokenPayload | null {
       return null;
     }
 
-    const payload = JSON.parse(atob(parts[1]));
-    return payload;
+    return decodeSegment(parts[1]);
   } catch (error) {
     console.error('JWT parsing failed:', error);
     return null;
   }
 }
 
+/**
+ * Decode a base64url string into bytes
+ */
+function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Decode a base64url JSON segment of a JWT
+ */
+function decodeSegment(segment: string): any {
+  return JSON.parse(new TextDecoder().decode(base64UrlToBytes(segment)));
+}
+
+/**
+ * Fetch the issuer's JWKS and import every supported, unexpired signing key
+ */
+async function fetchKeySet(jwksUri: string): Promise<CachedKeySet> {
+  const response = await fetch(jwksUri, {
+    headers: { 'Accept': 'application/json' }
+  });
+
+  if (!response.ok) {
+    throw new Error(`JWKS request failed with status ${response.status}`);
+  }
+
+  const body = await response.json<{ keys?: JWK[] }>();
+  const keys = new Map<string, CachedKey>();
+
+  for (const jwk of body.keys || []) {
+    const algorithm = jwk.alg ? signatureAlgorithms[jwk.alg] : undefined;
+    if (!jwk.kid || !algorithm) continue;
+    // Retired keys stay published for a while; tokens they sign are not accepted
+    const expiresAt = typeof jwk.exp === 'number' ? jwk.exp * 1000 : null;
+    if (expiresAt !== null && expiresAt <= Date.now()) continue;
+
+    try {
+      const key = await crypto.subtle.importKey('jwk', jwk as JsonWebKey, algorithm.import, false, ['verify']);
+      keys.set(`${jwk.alg}:${jwk.kid}`, { key, expiresAt });
+    } catch (error) {
+      console.error(`Skipping unusable JWKS key ${jwk.kid}:`, error);
+    }
+  }
+
+  return { keys, fetchedAt: Date.now() };
+}
+
+/**
+ * Load a cached key set, refetching when stale or when forced.
+ * Concurrent callers share one in-flight request.
+ */
+async function loadKeySet(jwksUri: string, force: boolean): Promise<CachedKeySet> {
+  const cached = jwksCache.get(jwksUri);
+  const now = Date.now();
+
+  if (cached) {
+    const fresh = now - cached.fetchedAt < JWKS_CACHE_TTL_MS;
+    const coolingDown = now - cached.fetchedAt < JWKS_REFETCH_COOLDOWN_MS;
+    if ((fresh && !force) || coolingDown) {
+      return cached;
+    }
+  }
+
+  let pending = jwksInFlight.get(jwksUri);
+  if (!pending) {
+    pending = fetchKeySet(jwksUri)
+      .then(keySet => {
+        jwksCache.set(jwksUri, keySet);
+        return keySet;
+      })
+      .finally(() => jwksInFlight.delete(jwksUri));
+    jwksInFlight.set(jwksUri, pending);
+  }
+
+  try {
+    return await pending;
+  } catch (error) {
+    // Keep serving the last known keys if the issuer is temporarily unreachable
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * A key from the set, unless it has expired since the set was fetched
+ */
+function unexpiredKey(keySet: CachedKeySet, cacheKey: string): CryptoKey | null {
+  const cached = keySet.keys.get(cacheKey);
+  if (!cached || (cached.expiresAt !== null && cached.expiresAt <= Date.now())) return null;
+  return cached.key;
+}
+
+/**
+ * Resolve the verification key for a token header, refetching the JWKS
+ * once when the key id is not in the cache (e.g. after key rotation)
+ */
+async function resolveVerificationKey(jwksUri: string, alg: string, kid: string): Promise<CryptoKey | null> {
+  const cacheKey = `${alg}:${kid}`;
+  const keySet = await loadKeySet(jwksUri, false);
+  const key = unexpiredKey(keySet, cacheKey);
+  if (key) return key;
+
+  const refreshed = await loadKeySet(jwksUri, true);
+  return unexpiredKey(refreshed, cacheKey);
+}
+
+/**
+ * Verify a JWT signature, issuer, audience and expiry against the
+ * issuer's published JWKS. Keys are cached per JWKS URI.
+ */
+export async function verifyToken(token: string, options: VerifyTokenOptions): Promise<ValidationResult> {
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 3) {
+    return { valid: false, error: 'Invalid token format' };
+  }
+
+  let header: { alg?: string; kid?: string };
+  let payload: TokenPayload;
+  try {
+    header = decodeSegment(parts[0]);
+    payload = decodeSegment(parts[1]);
+  } catch (error) {
+    return { valid: false, error: 'Token parsing failed' };
+  }
+
+  const algorithm = header.alg ? signatureAlgorithms[header.alg] : undefined;
+  if (!algorithm || !header.kid) {
+    return { valid: false, error: 'Unsupported token algorithm' };
+  }
+
+  const issuer = options.issuer.replace(/\/+$/, '');
+  const jwksUri = options.jwksUri || `${issuer}/.well-known/jwks.json`;
+
+  let key: CryptoKey | null;
+  try {
+    key = await resolveVerificationKey(jwksUri, header.alg!, header.kid);
+  } catch (error) {
+    console.error('JWKS fetch failed:', error);
+    return { valid: false, error: 'Unable to load signing keys' };
+  }
+
+  if (!key) {
+    return { valid: false, error: 'Unknown signing key' };
+  }
+
+  const signedData = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+  const signatureValid = await crypto.subtle.verify(
+    algorithm.verify,
+    key,
+    base64UrlToBytes(parts[2]),
+    signedData
+  );
+
+  if (!signatureValid) {
+    return { valid: false, error: 'Invalid token signature' };
+  }
+
+  if (payload.iss?.replace(/\/+$/, '') !== issuer) {
+    return { valid: false, error: 'Invalid token issuer' };
+  }
+
+  // A token for one client must not be accepted by another's API
+  const allowed = (Array.isArray(options.audience) ? options.audience : [options.audience]).filter(Boolean);
+  const audiences: string[] = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (allowed.length === 0 || !audiences.some(aud => allowed.includes(aud))) {
+    return { valid: false, error: 'Invalid token audience' };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.exp !== 'number' || payload.exp + (options.clockTolerance || 0) < now) {
+    return { valid: false, error: 'Token expired', expired: true };
+  }
+
+  if (payload.mode && payload.mode !== 'access') {
+    return { valid: false, error: 'Not an access token' };
+  }
+
+  return { valid: true, payload };
+}
+
 /**
  * Check if token is expired
  */
@@ -139,23 +371,18 @@ export function validateTokenFormat(token: string): ValidationResult {
 
 /**
  * Create error response for authentication failures
+ * @deprecated Throw or return one of the AuthError classes and use toResponse()
  */
 export function createAuthErrorResponse(
   message: string,
   status: number = 401,
-  code?: string
+  code: AuthErrorCode = 'AUTH_ERROR'
 ): Response {
-  return new Response(JSON.stringify({
-    error: message,
-    code: code || 'AUTH_ERROR',
-    timestamp: new Date().toISOString()
-  }), {
+  return new AuthError(message, {
+    code,
     status,
-    headers: {
-      'Content-Type': 'application/json',
-      'WWW-Authenticate': 'Bearer'
-    }
-  });
+    bearerError: status === 401 ? 'invalid_token' : undefined
+  }).toResponse();
 }
 
 /**
@@ -178,29 +405,30 @@ export function createAuthSuccessResponse(
 }
 
 /**
- * Generate secure random string for state parameter
+ * Base64url string of `byteLength` cryptographically random bytes
  */
-export function generateSecureState(length: number = 32): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  let result = '';
-  
-  for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  
-  return result;
+function randomBase64Url(byteLength: number): string {
+  const array = new Uint8Array(byteLength);
+  crypto.getRandomValues(array);
+  return btoa(String.fromCharCode.apply(null, Array.from(array)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=/g, '');
 }
 
 /**
  * Generate secure random string for PKCE code verifier
  */
 export function generateCodeVerifier(): string {
-  const array = new Uint8Array(32);
-  crypto.getRandomValues(array);
-  return btoa(String.fromCharCode.apply(null, Array.from(array)))
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=/g, '');
+  return randomBase64Url(32);
+}
+
+/**
+ * Generate secure random string for state parameter, from `byteLength`
+ * random bytes (at least 16)
+ */
+export function generateSecureState(byteLength: number = 32): string {
+  return randomBase64Url(Math.max(byteLength, 16));
 }
 
 /**
@@ -236,19 +464,10 @@ export function sanitizeUserData(user: any): any {
 }
 
 /**
- * Check if user has required permission
+ * Check if user's role meets or inherits the required role
  */
-export function hasPermission(userRole: string, requiredRole: string): boolean {
-  const roleHierarchy = {
-    'admin': 3,
-    'vendor': 2,
-    'customer': 1
-  };
-
-  const userLevel = roleHierarchy[userRole as keyof typeof roleHierarchy] || 0;
-  const requiredLevel = roleHierarchy[requiredRole as keyof typeof roleHierarchy] || 0;
-
-  return userLevel >= requiredLevel;
+export function hasPermission(userRole: string, requiredRole: string, policy: RbacPolicy = defaultRbacPolicy): boolean {
+  return policy.hasRole(userRole, requiredRole);
 }
 
 /**
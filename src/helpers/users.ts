@@ -0,0 +1,185 @@
+/**
+ * User Administration Utilities
+ * Search and update the user table for admin tooling
+ */
+
+import {
+  integer,
+  maxLength,
+  maxValue,
+  minLength,
+  minValue,
+  number,
+  object,
+  optional,
+  picklist,
+  pipe,
+  regex,
+  string,
+  transform,
+  trim,
+  type InferOutput
+} from 'valibot';
+import { sanitizeUserData } from './token-validation';
+import { ACCOUNT_STATUSES, type AccountStatus } from './account-status';
+import { revokeAllSessions } from './sessions';
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  avatar_url?: string | null;
+  role?: string | null;
+  status: AccountStatus;
+  status_reason: string | null;
+  status_changed_at: string | null;
+  created_at: string;
+  last_login: string | null;
+}
+
+export interface UserSearchResult {
+  users: AdminUser[];
+  total: number;
+  page: number;
+  per_page: number;
+}
+
+const USER_SORT_COLUMNS = ['created_at', 'last_login', 'email'] as const;
+
+const timestamp = pipe(string(), trim(), regex(/^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2})?(\.\d+)?Z?)?$/, 'Expected an ISO date or timestamp'));
+const positiveInteger = (max: number, fallback: string) =>
+  optional(pipe(string(), transform(Number), number(), integer(), minValue(1), maxValue(max)), fallback);
+
+/**
+ * Query string filters for user search. Ranges are [after, before).
+ */
+export const UserSearchSchema = object({
+  q: optional(pipe(string(), trim(), minLength(1), maxLength(200))), // Matches email or name
+  role: optional(pipe(string(), trim(), minLength(1))),
+  status: optional(picklist(ACCOUNT_STATUSES)),
+  created_after: optional(timestamp),
+  created_before: optional(timestamp),
+  last_login_after: optional(timestamp),
+  last_login_before: optional(timestamp),
+  sort: optional(picklist(USER_SORT_COLUMNS), 'created_at'),
+  order: optional(picklist(['asc', 'desc']), 'desc'),
+  page: positiveInteger(100000, '1'),
+  per_page: positiveInteger(100, '25')
+});
+
+export type UserSearch = InferOutput<typeof UserSearchSchema>;
+
+const ADMIN_USER_COLUMNS =
+  'id, email, first_name, last_name, avatar_url, role, status, status_reason, status_changed_at, created_at, last_login';
+
+/**
+ * Convert a D1 row to the sanitized record admins see
+ */
+function toAdminUser(row: Record<string, any>): AdminUser {
+  return {
+    ...sanitizeUserData(row),
+    status: row.status,
+    status_reason: row.status_reason ?? null,
+    status_changed_at: row.status_changed_at ?? null,
+    created_at: row.created_at,
+    last_login: row.last_login ?? null
+  };
+}
+
+/**
+ * Escape LIKE wildcards so search terms match literally
+ */
+function likePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+/**
+ * Search a tenant's users with filters and pagination
+ */
+export async function searchUsers(db: D1Database, tenantId: string, search: UserSearch): Promise<UserSearchResult> {
+  const conditions: string[] = [`tenant_id = ?`];
+  const bindings: unknown[] = [tenantId];
+
+  if (search.q) {
+    const pattern = likePattern(search.q);
+    conditions.push(
+      `(email LIKE ? ESCAPE '\\' OR first_name LIKE ? ESCAPE '\\' OR last_name LIKE ? ESCAPE '\\'
+        OR (COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')) LIKE ? ESCAPE '\\')`
+    );
+    bindings.push(pattern, pattern, pattern, pattern);
+  }
+  if (search.role) {
+    conditions.push(`COALESCE(role, 'customer') = ?`);
+    bindings.push(search.role);
+  }
+  if (search.status) {
+    conditions.push(`status = ?`);
+    bindings.push(search.status);
+  }
+  if (search.created_after) {
+    conditions.push(`created_at >= datetime(?)`);
+    bindings.push(search.created_after);
+  }
+  if (search.created_before) {
+    conditions.push(`created_at < datetime(?)`);
+    bindings.push(search.created_before);
+  }
+  if (search.last_login_after) {
+    conditions.push(`last_login >= datetime(?)`);
+    bindings.push(search.last_login_after);
+  }
+  if (search.last_login_before) {
+    conditions.push(`last_login < datetime(?)`);
+    bindings.push(search.last_login_before);
+  }
+
+  const where = `WHERE ${conditions.join(' AND ')}`;
+  // sort and order come from picklists, so they are safe to interpolate
+  const orderBy = `${search.sort} ${search.order.toUpperCase()} NULLS LAST, id ASC`;
+  const offset = (search.page - 1) * search.per_page;
+
+  const [rows, count] = await db.batch<Record<string, any>>([
+    db.prepare(`SELECT ${ADMIN_USER_COLUMNS} FROM user ${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`)
+      .bind(...bindings, search.per_page, offset),
+    db.prepare(`SELECT COUNT(*) AS total FROM user ${where}`).bind(...bindings)
+  ]);
+
+  return {
+    users: rows.results.map(toAdminUser),
+    total: count.results[0]?.total ?? 0,
+    page: search.page,
+    per_page: search.per_page
+  };
+}
+
+/**
+ * Get the admin record of one of a tenant's users
+ */
+export async function getAdminUser(db: D1Database, tenantId: string, userId: string): Promise<AdminUser | null> {
+  const row = await db.prepare(`SELECT ${ADMIN_USER_COLUMNS} FROM user WHERE id = ? AND tenant_id = ?`)
+    .bind(userId, tenantId)
+    .first();
+  return row ? toAdminUser(row) : null;
+}
+
+/**
+ * Change a user's role. The caller is responsible for checking the role exists.
+ * Tokens carry the role and refreshes keep it, so a change revokes the user's
+ * sessions and they pick up the new role when they sign in again.
+ */
+export async function setUserRole(
+  db: D1Database,
+  tenantId: string,
+  userId: string,
+  role: string
+): Promise<AdminUser | null> {
+  const result = await db.prepare(`UPDATE user SET role = ? WHERE id = ? AND tenant_id = ? AND role IS NOT ?`)
+    .bind(role, userId, tenantId, role)
+    .run();
+
+  if (result.meta.changes > 0) {
+    await revokeAllSessions(db, userId);
+  }
+  return getAdminUser(db, tenantId, userId);
+}
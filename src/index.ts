@@ -2,25 +2,127 @@ import { issuer } from "@openauthjs/openauth";
 import { CloudflareStorage } from "@openauthjs/openauth/storage/cloudflare";
 import { PasswordProvider } from "@openauthjs/openauth/provider/password";
 import { PasswordUI } from "@openauthjs/openauth/ui/password";
-import { GoogleProvider } from "@openauthjs/openauth/provider/google";
-import { createSubjects } from "@openauthjs/openauth/subject";
-import { object, string } from "valibot";
+import { createClient } from "@openauthjs/openauth/client";
+import { OauthError } from "@openauthjs/openauth/error";
+import { createCorsPolicy, extractToken, type CorsPolicy } from "./middleware/auth";
+import { getClientIP, isTokenExpired, parseJWT } from "./helpers/token-validation";
+import {
+	AccountBlockedError,
+	InvalidTokenError,
+	MissingTokenError,
+	TokenExpiredError,
+} from "./helpers/auth-errors";
+import { createSession, describeDevice, isNewDevice, touchSession } from "./helpers/sessions";
+import { Mailer, createEmailProvider } from "./helpers/email";
+import { checkAccountStatus, type AccountStatus } from "./helpers/account-status";
+import { recordAuditEvent } from "./helpers/audit";
+import {
+	createSocialProviders,
+	getProviderProfile,
+	type ProviderSuccess,
+	type SocialProviders,
+} from "./helpers/social-providers";
+import {
+	consumeLinkIntent,
+	findIdentityUser,
+	linkIdentity,
+	passwordIdentity,
+	readLinkIntentCookie,
+	resolveLoginUser,
+	type IdentityProvider,
+} from "./helpers/identities";
+import {
+	authenticationMethods,
+	createMfaChallenge,
+	getMfaStatus,
+	isMfaRequired,
+	mfaChallengeCookie,
+	type MfaMethod,
+} from "./helpers/mfa";
+import { MfaProvider, MfaSelect } from "./helpers/mfa-provider";
+import { loadRbacPolicy } from "./helpers/rbac";
+import { handleUserInfo } from "./routes/userinfo";
+import { handleSessions } from "./routes/sessions";
+import { handleAddresses } from "./routes/addresses";
+import { handleAdminClients } from "./routes/admin-clients";
+import { handleAdminUsers } from "./routes/admin-users";
+import { handleAdminAudit } from "./routes/admin-audit";
+import { handleIdentities } from "./routes/identities";
+import { handleMfa } from "./routes/mfa";
+import { handleDevOutbox } from "./routes/dev-outbox";
+import { DEMO_CLIENT_ID, isRedirectAllowed } from "./helpers/clients";
+import { handleToken } from "./routes/token";
+import { loadIssuerConfig, type IssuerConfig } from "./helpers/config";
+import { resolveTenant, tenantConfig, tenantStorage } from "./helpers/tenants";
+import { createUserSubject, displayName, subjectMfa, subjectTenant, subjects } from "./subjects";
+import type { AuthenticateResult, RouteContext } from "./routes/context";
 
 // Import local modules to ensure they're included in the bundle
-export { AuthClient, useAuth } from "./client-sdk";
+export { 
+  AuthClient, 
+  useAuth, 
+  MemoryTokenStorage, 
+  WebTokenStorage, 
+  AsyncTokenStorage, 
+  IndexedDBTokenStorage, 
+  readAuthError, 
+  AuthError as ClientAuthError, 
+  NotAuthenticatedError, 
+  SessionExpiredError, 
+  AccountBlockedError as ClientAccountBlockedError, 
+  InsufficientScopeError as ClientInsufficientScopeError, 
+  MfaRequiredError as ClientMfaRequiredError, 
+  RateLimitedError as ClientRateLimitedError 
+} from "./client-sdk";
+export { 
+  AuthError, 
+  MissingTokenError, 
+  InvalidTokenError, 
+  TokenExpiredError, 
+  InsufficientScopeError, 
+  MfaRequiredError, 
+  AccountBlockedError, 
+  RateLimitedError 
+} from "./helpers/auth-errors";
 export { 
   requireAuth, 
   requireRole, 
+  requireAnyRole, 
+  requirePermission, 
+  requireMfa, 
   optionalAuth, 
   createProtectedHandler, 
   createRoleProtectedHandler, 
+  createPermissionProtectedHandler, 
+  createMfaProtectedHandler, 
   createOptionalAuthHandler,
   RateLimiter,
+  MemoryRateLimitStore,
+  KVRateLimitStore,
+  rateLimitHeaders,
+  addRateLimitHeaders,
   corsHeaders,
+  createCorsPolicy,
+  defaultCorsPolicy,
   handleCors,
   addCorsHeaders,
   applyRateLimit
 } from "./middleware/auth";
+export { 
+  Router, 
+  createRouter 
+} from "./middleware/router";
+export { 
+  subjects, 
+  UserSubjectSchema, 
+  SUBJECT_VERSION, 
+  SUPPORTED_SUBJECT_VERSIONS, 
+  subjectVersion, 
+  createUserSubject, 
+  subjectTenant, 
+  subjectMfa, 
+  displayName 
+} from "./subjects";
 export { 
   parseJWT, 
   isTokenExpired, 
@@ -28,6 +130,7 @@ export {
   getTimeUntilExpiration, 
   extractUserFromToken, 
   validateTokenFormat, 
+  verifyToken, 
   createAuthErrorResponse, 
   createAuthSuccessResponse, 
   generateSecureState, 
@@ -38,38 +141,176 @@ export {
   getClientIP, 
   createRateLimitKey 
 } from "./helpers/token-validation";
+export { 
+  createSession, 
+  refreshSession, 
+  touchSession, 
+  listActiveSessions, 
+  revokeSession, 
+  revokeAllSessions, 
+  describeDevice, 
+  isNewDevice, 
+  SESSION_TTL_SECONDS 
+} from "./helpers/sessions";
+export { 
+  AddressInputSchema, 
+  ADDRESS_TYPES, 
+  isValidPostalCode, 
+  listAddresses, 
+  getAddress, 
+  createAddress, 
+  updateAddress, 
+  deleteAddress 
+} from "./helpers/addresses";
+export { 
+  ACCOUNT_STATUSES, 
+  ACCOUNT_STATUS_ERROR_CODES, 
+  getAccountStatus, 
+  checkAccountStatus, 
+  setAccountStatus 
+} from "./helpers/account-status";
+export { 
+  resolveLoginUser, 
+  linkIdentity, 
+  listIdentities, 
+  unlinkIdentity 
+} from "./helpers/identities";
+export { 
+  TOTP_PERIOD_SECONDS, 
+  TOTP_DIGITS, 
+  RECOVERY_CODE_COUNT, 
+  generateTotpSecret, 
+  otpauthUri, 
+  verifyTotpCode, 
+  getMfaStatus, 
+  isMfaRequired, 
+  startTotpEnrollment, 
+  confirmTotpEnrollment, 
+  regenerateRecoveryCodes, 
+  verifyMfaCode, 
+  disableMfa, 
+  authenticationMethods 
+} from "./helpers/mfa";
+export { 
+  MfaProvider, 
+  MfaSelect 
+} from "./helpers/mfa-provider";
+export { 
+  AUDIT_EVENTS, 
+  AUDIT_OUTCOMES, 
+  AuditQuerySchema, 
+  recordAuditEvent, 
+  queryAuditLog, 
+  exportAuditLog, 
+  auditLogToCsv 
+} from "./helpers/audit";
+export { 
+  ENVIRONMENTS, 
+  ConfigError, 
+  parseIssuerConfig, 
+  loadIssuerConfig 
+} from "./helpers/config";
+export { 
+  DEFAULT_TENANT_ID, 
+  getTenant, 
+  resolveTenant, 
+  tenantConfig, 
+  tenantStorage 
+} from "./helpers/tenants";
+export { 
+  UserSearchSchema, 
+  searchUsers, 
+  getAdminUser, 
+  setUserRole 
+} from "./helpers/users";
+export { 
+  ClientRegistrationSchema, 
+  GRANT_TYPES, 
+  CLIENT_TYPES, 
+  getClient, 
+  listClients, 
+  isRedirectAllowed, 
+  authenticateClient, 
+  registerClient, 
+  rotateClientSecret, 
+  setClientDisabled 
+} from "./helpers/clients";
+export { 
+  Mailer, 
+  HttpEmailProvider, 
+  OutboxEmailProvider, 
+  renderEmail, 
+  createEmailProvider 
+} from "./helpers/email";
+export { 
+  createRbacPolicy, 
+  defaultRbacPolicy, 
+  loadRbacPolicy, 
+  DEFAULT_ROLE_DEFINITIONS 
+} from "./helpers/rbac";
 
 // Re-export types with namespace to avoid conflicts
-export type { AuthTokens } from "./client-sdk";
+export type { AuthTokens, Address, AddressInput } from "./client-sdk";
+export type { TokenStorage, TokenStorageOption, AsyncKeyValueStore, RefreshResult } from "./client-sdk";
+export type { RefreshSchedule, RefreshScheduleListener, AuthChangeListener, AuthErrorInfo } from "./client-sdk";
 export type { User as ClientUser, AuthConfig as ClientAuthConfig } from "./client-sdk";
 export type { User as MiddlewareUser, AuthConfig as MiddlewareAuthConfig, AuthResult } from "./middleware/auth";
-export type { TokenPayload, ValidationResult } from "./helpers/token-validation";
-
-// This value should be shared between the OpenAuth server Worker and other
-// client Workers that you connect to it, so the types and schema validation are
-// consistent.
-const subjects = createSubjects({
-	user: object({
-		id: string(),
-	}),
-});
+export type { RateLimitAlgorithm, RateLimitStore, RateLimiterOptions, RateLimitResult, RateLimitOutcome } from "./middleware/auth";
+export type { CorsOrigin, CorsOptions, CorsRouteOptions, CorsPolicy } from "./middleware/auth";
+export type { AuthErrorCode, BearerErrorCode, AuthErrorBody, AuthErrorOptions } from "./helpers/auth-errors";
+export type { HttpMethod, RouteAuth, RouterContext, RouteHandler, RouteDefinition, RouteDescription, RouterOptions } from "./middleware/router";
+export type { TokenPayload, ValidationResult, VerifyTokenOptions } from "./helpers/token-validation";
+export type { UserSubject, CurrentUserSubject } from "./subjects";
+export type { RoleDefinition, RoleDefinitions, RbacPolicy } from "./helpers/rbac";
+export type { UserSession } from "./helpers/sessions";
+export type { EmailMessage, EmailProvider, EmailTemplateName, EmailTemplateData, OutboxMessage } from "./helpers/email";
+export type { OAuthClient, ClientRegistration, ClientType, GrantType } from "./helpers/clients";
+export type { UserAddress, AddressInput as AddressRecordInput, AddressType } from "./helpers/addresses";
+export type { AdminUser, UserSearch, UserSearchResult } from "./helpers/users";
+export type { AccountStatus, AccountStatusRecord, AccountStatusError, AccountStatusErrorCode } from "./helpers/account-status";
+export type { ProviderProfile, SocialProviderName } from "./helpers/social-providers";
+export type { IdentityProvider, UserIdentity, LoginIdentity, IdentityError } from "./helpers/identities";
+export type { MfaMethod, MfaStatus, MfaChallenge } from "./helpers/mfa";
+export type { MfaProviderOptions, MfaSuccess } from "./helpers/mfa-provider";
+export type { AuditEvent, AuditOutcome, AuditEntry, AuditEventInput, AuditQuery, AuditQueryResult } from "./helpers/audit";
+export type { Environment, IssuerConfig, EmailSettings, ProviderSettings } from "./helpers/config";
+export type { Tenant } from "./helpers/tenants";
 
 export default {
-	fetch(request: Request, env: Env, ctx: ExecutionContext) {
+	async fetch(request: Request, env: Env, ctx: ExecutionContext) {
+		let envConfig: IssuerConfig;
+		try {
+			envConfig = loadIssuerConfig(env);
+		} catch (error) {
+			// Refuse to serve a half-configured issuer; the log lists what to fix
+			console.error(error instanceof Error ? error.message : error);
+			return new Response("Issuer configuration is invalid", { status: 500 });
+		}
+
+		// Each storefront brand is a tenant, picked by the host the request was
+		// made to. Its users, clients and signing keys are kept apart from the
+		// other tenants'.
+		const tenant = await resolveTenant(env.AUTH_DB, request);
+		if (!tenant) {
+			return new Response("Not found", { status: 404 });
+		}
+		const config = tenantConfig(envConfig, tenant);
+		const storage = tenantStorage(CloudflareStorage({ namespace: env.AUTH_STORAGE }), tenant.id);
+
 		// This top section is just for demo purposes. In a real setup another
 		// application would redirect the user to this Worker to be authenticated,
 		// and after signing in or registering the user would be redirected back to
 		// the application they came from. In our demo setup there is no other
 		// application, so this Worker needs to do the initial redirect and handle
-		// the callback redirect on completion.
+		// the callback redirect on completion. Set DEMO_ROUTES=false to turn it off.
 		const url = new URL(request.url);
-		if (url.pathname === "/") {
+		if (config.demoRoutes && url.pathname === "/") {
 			url.searchParams.set("redirect_uri", url.origin + "/callback");
-			url.searchParams.set("client_id", "your-client-id");
+			url.searchParams.set("client_id", DEMO_CLIENT_ID);
 			url.searchParams.set("response_type", "code");
 			url.pathname = "/authorize";
 			return Response.redirect(url.toString());
-		} else if (url.pathname === "/callback") {
+		} else if (config.demoRoutes && url.pathname === "/callback") {
 			return Response.json({
 				message: "OAuth flow complete!",
 				params: Object.fromEntries(url.searchParams.entries()),
@@ -77,79 +318,396 @@ export default {
 		}
 
 		// The real OpenAuth server code starts here:
-		return issuer({
-			storage: CloudflareStorage({
-				namespace: env.AUTH_STORAGE,
-			}),
+		const mailer = new Mailer(createEmailProvider(config.email, env.AUTH_STORAGE), { appName: config.appName });
+		const waitUntil = ctx.waitUntil.bind(ctx);
+
+		const app = issuer<IssuerProviders, typeof subjects, ProviderSuccess<IssuerProviders>>({
+			storage,
 			subjects,
+			// Only registered, enabled clients may start an authorization, and
+			// only with one of their registered redirect URIs
+			allow: async (input, req) =>
+				isRedirectAllowed(
+					env.AUTH_DB,
+					tenant.id,
+					input.clientID,
+					input.redirectURI,
+					new URL(req.url).origin,
+					config.demoRoutes,
+				),
 			providers: {
 				password: PasswordProvider(
 					PasswordUI({
-						// eslint-disable-next-line @typescript-eslint/require-await
 						sendCode: async (email, code) => {
-							// This is where you would email the verification code to the
-							// user, e.g. using Resend:
-							// https://resend.com/docs/send-with-cloudflare-workers
-							console.log(`Sending code ${code} to ${email}`);
+							// The password provider sends codes from /password/register and
+							// /password/change; the latter is the reset flow
+							const template = url.pathname.endsWith("/change") ? "password_reset" : "verification";
+							if (template === "password_reset") {
+								await recordAuditEvent(env.AUTH_DB, request, {
+									tenantId: tenant.id,
+									event: "password_reset",
+									targetId: await findIdentityUser(env.AUTH_DB, tenant.id, "password", email),
+									details: { stage: "requested", email },
+								});
+							}
+							await mailer.send(email, template, { code });
 						},
 						copy: {
-							input_code: "Code (check Worker logs)",
+							input_code: "Code (check your email)",
 						},
 					}),
 				),
-				google: GoogleProvider({
-					clientID: env.GOOGLE_CLIENT_ID,
-					clientSecret: env.GOOGLE_CLIENT_SECRET,
-					scopes: ["profile", "email"],
+				...createSocialProviders(config.providers),
+				// Not a way to sign in; the second step after one of the above
+				mfa: MfaProvider({
+					db: env.AUTH_DB,
+					storage: env.AUTH_STORAGE,
+					tenantId: tenant.id,
+					appName: config.appName,
+					theme: config.theme,
+					onEnroll: (req, challenge) =>
+						recordAuditEvent(env.AUTH_DB, req, {
+							tenantId: tenant.id,
+							event: "mfa_enroll",
+							actorId: challenge.userId,
+							targetId: challenge.userId,
+							details: { during: "sign_in" },
+						}),
+					onFailure: (req, challenge, locked) =>
+						recordAuditEvent(env.AUTH_DB, req, {
+							tenantId: tenant.id,
+							event: "mfa_verify",
+							outcome: "failure",
+							actorId: challenge.userId,
+							targetId: challenge.userId,
+							details: { provider: challenge.provider, attempts: challenge.attempts, locked },
+						}),
 				}),
 			},
-			theme: {
-				title: "Go-Shop",
-				primary: "#FFF8DC",
-				favicon: "https://ik.imagekit.io/dr5fryhth/logo1.png?updatedAt=1760472240746",
-				logo: {
-					dark: "https://ik.imagekit.io/dr5fryhth/logo1.png?updatedAt=1760472240746",
-					light:
-						"https://ik.imagekit.io/dr5fryhth/logo1.png?updatedAt=1760472240746",
-				},
-			},
-			success: async (ctx, value) => {
-				const email = value.provider === "password" ? value.email : (value as any).email;
-				const profile = value.provider === "google" ? (value as any).profile : undefined;
-				return ctx.subject("user", {
-					id: await getOrCreateUser(env, email || "", profile),
-				});
+			theme: config.theme,
+			select: MfaSelect(),
+			success: async (ctx, value, req) => {
+				// Issue the tokens for a sign-in that passed every step it needs
+				const completeLogin = async (id: string, provider: IdentityProvider, mfa: MfaMethod | null) => {
+					await recordAuditEvent(env.AUTH_DB, req, {
+						tenantId: tenant.id,
+						event: "login",
+						actorId: id,
+						targetId: id,
+						details: { provider, ...(mfa && { mfa }) },
+					});
+					const user = await getSubjectUser(env, id);
+					if (await isNewDevice(env.AUTH_DB, id, req)) {
+						waitUntil(
+							mailer
+								.send(user.email, "new_device", {
+									device: describeDevice(req.headers.get("User-Agent")),
+									ipAddress: getClientIP(req),
+									time: new Date().toUTCString(),
+								})
+								.catch((error) => console.error("New device alert failed:", error)),
+						);
+					}
+					return ctx.subject(
+						"user",
+						createUserSubject({
+							id,
+							tenant: tenant.id,
+							sid: await createSession(env.AUTH_DB, id, req),
+							email: user.email,
+							role: user.role || "customer",
+							name: displayName(user),
+							status: user.status,
+							amr: authenticationMethods(provider, mfa),
+							mfa: mfa !== null,
+						}),
+					);
+				};
+
+				// The second step of a sign-in: the MFA provider accepted a code
+				if (value.provider === "mfa") {
+					const { userId, provider } = value.challenge;
+					await recordAuditEvent(env.AUTH_DB, req, {
+						tenantId: tenant.id,
+						event: "mfa_verify",
+						actorId: userId,
+						targetId: userId,
+						details: { provider, method: value.method },
+					});
+					// The account may have been blocked while the challenge was open
+					const blocked = await checkAccountStatus(env.AUTH_DB, userId);
+					if (blocked) {
+						throw new OauthError("access_denied", `${blocked.code}: ${blocked.message}`);
+					}
+					return completeLogin(userId, provider, value.method);
+				}
+
+				const login =
+					value.provider === "password"
+						? passwordIdentity(value.email)
+						: await getProviderProfile(value);
+				// A link intent cookie means a signed-in user is attaching this
+				// provider to their account rather than signing in with it
+				const linkToken = readLinkIntentCookie(req);
+				const consumed = linkToken ? await consumeLinkIntent(env.AUTH_STORAGE, linkToken) : null;
+				const intent = consumed?.tenantId === tenant.id ? consumed : null;
+				const resolved =
+					intent && intent.provider === login.provider
+						? await linkIdentity(env.AUTH_DB, tenant.id, intent.userId, login)
+						: await resolveLoginUser(env.AUTH_DB, tenant.id, login);
+				if ("error" in resolved) {
+					await recordAuditEvent(env.AUTH_DB, req, {
+						tenantId: tenant.id,
+						event: intent ? "identity_link" : "login",
+						outcome: "failure",
+						actorId: intent?.userId,
+						details: { provider: login.provider, email: login.email, reason: resolved.error.code },
+					});
+					throw new OauthError("access_denied", `${resolved.error.code}: ${resolved.error.message}`);
+				}
+				const id = resolved.userId;
+				// Blocked accounts are sent back to the client as access_denied with
+				// the status code first, e.g. "ACCOUNT_SUSPENDED: ..."
+				const blocked = await checkAccountStatus(env.AUTH_DB, id);
+				if (blocked) {
+					await recordAuditEvent(env.AUTH_DB, req, {
+						tenantId: tenant.id,
+						event: "login",
+						outcome: "failure",
+						actorId: id,
+						targetId: id,
+						details: { provider: login.provider, reason: blocked.code },
+					});
+					throw new OauthError("access_denied", `${blocked.code}: ${blocked.message}`);
+				}
+				if (resolved.created) {
+					await recordAuditEvent(env.AUTH_DB, req, {
+						tenantId: tenant.id,
+						event: "register",
+						actorId: id,
+						targetId: id,
+						details: { provider: login.provider, email: login.email },
+					});
+				}
+				if (intent) {
+					await recordAuditEvent(env.AUTH_DB, req, {
+						tenantId: tenant.id,
+						event: "identity_link",
+						actorId: id,
+						targetId: id,
+						details: { provider: login.provider },
+					});
+				}
+				// Users with an authenticator, or whose role requires one, finish
+				// signing in on the MFA provider's page
+				const role = (await getSubjectUser(env, id)).role || "customer";
+				const mfaRequired = isMfaRequired(await loadRbacPolicy(env.AUTH_DB), role, config.mfa.requiredRoles);
+				if (mfaRequired || (await getMfaStatus(env.AUTH_DB, id)).enrolled) {
+					const challenge = await createMfaChallenge(env.AUTH_STORAGE, {
+						tenantId: tenant.id,
+						userId: id,
+						provider: login.provider,
+						attempts: 0,
+					});
+					return new Response(null, {
+						status: 302,
+						headers: {
+							Location: "/mfa/authorize",
+							"Set-Cookie": mfaChallengeCookie(challenge, req.url),
+						},
+					});
+				}
+
+				return completeLogin(id, login.provider, null);
 			},
-		}).fetch(request, env, ctx);
+		});
+
+		const routeContext: RouteContext = {
+			env,
+			ctx,
+			config,
+			tenant,
+			storage,
+			cors: createIssuerCorsPolicy(config),
+			authenticate: (req) => authenticateRequest(req, env, ctx, app, tenant.id),
+			forward: async (req) => app.fetch(req, env, ctx),
+		};
+
+		if (url.pathname === "/userinfo") {
+			return handleUserInfo(request, routeContext);
+		}
+		if (url.pathname === "/sessions" || url.pathname.startsWith("/sessions/")) {
+			return handleSessions(request, routeContext);
+		}
+		if (url.pathname === "/addresses" || url.pathname.startsWith("/addresses/")) {
+			return handleAddresses(request, routeContext);
+		}
+		if (url.pathname === "/identities" || url.pathname.startsWith("/identities/")) {
+			return handleIdentities(request, routeContext);
+		}
+		if (url.pathname === "/mfa" || url.pathname.startsWith("/mfa/")) {
+			return handleMfa(request, routeContext);
+		}
+		if (url.pathname === "/admin/clients" || url.pathname.startsWith("/admin/clients/")) {
+			return handleAdminClients(request, routeContext);
+		}
+		if (url.pathname === "/admin/users" || url.pathname.startsWith("/admin/users/")) {
+			return handleAdminUsers(request, routeContext);
+		}
+		if (url.pathname === "/admin/audit" || url.pathname.startsWith("/admin/audit/")) {
+			return handleAdminAudit(request, routeContext);
+		}
+		if (url.pathname === "/dev/outbox") {
+			return handleDevOutbox(request, routeContext);
+		}
+		if (url.pathname === "/token" && (request.method === "POST" || request.method === "OPTIONS")) {
+			return handleToken(request, routeContext);
+		}
+		if (request.method === "POST" && (url.pathname === "/password/authorize" || url.pathname === "/password/change")) {
+			return auditPasswordForm(request, env, ctx, app, tenant.id);
+		}
+
+		return app.fetch(request, env, ctx);
 	},
 } satisfies ExportedHandler<Env>;
 
-async function getOrCreateUser(env: Env, email: string, profile?: any): Promise<string> {
-	const result = await env.AUTH_DB.prepare(
-		`
-		INSERT INTO user (email, first_name, last_name, avatar_url, last_login)
-		VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
-		ON CONFLICT (email) DO UPDATE SET 
-			first_name = COALESCE(?, first_name),
-			last_name = COALESCE(?, last_name),
-			avatar_url = COALESCE(?, avatar_url),
-			last_login = CURRENT_TIMESTAMP
-		RETURNING id;
-		`,
+type IssuerApp = ReturnType<typeof issuer>;
+
+/**
+ * The issuer's providers; social ones are only there when configured
+ */
+type IssuerProviders = {
+	password: ReturnType<typeof PasswordProvider>;
+	mfa: ReturnType<typeof MfaProvider>;
+} & Partial<SocialProviders>;
+
+/**
+ * Build the CORS policy for the issuer's API routes. Admin routes fall back
+ * to the general origin list when they have none of their own.
+ */
+function createIssuerCorsPolicy(config: IssuerConfig): CorsPolicy {
+	const { origins, adminOrigins } = config.cors;
+	return createCorsPolicy({
+		origins,
+		routes: adminOrigins.length > 0 ? { "/admin/": { origins: adminOrigins } } : {},
+	});
+}
+
+/**
+ * Verify the bearer token on a request against this issuer's own signing keys
+ * and the `subjects` schema, and require it to belong to the request's tenant.
+ * JWKS lookups are routed straight into the issuer app instead of making a
+ * subrequest back to this Worker.
+ */
+async function authenticateRequest(
+	request: Request,
+	env: Env,
+	ctx: ExecutionContext,
+	app: IssuerApp,
+	tenantId: string,
+): Promise<AuthenticateResult> {
+	const token = extractToken(request);
+	if (!token) {
+		return { error: new MissingTokenError().toResponse() };
+	}
+
+	const client = createClient({
+		clientID: "userinfo",
+		issuer: new URL(request.url).origin,
+		fetch: async (input: RequestInfo | URL, init?: RequestInit) =>
+			app.fetch(new Request(input, init), env, ctx),
+	});
+	const verified = await client.verify(subjects, token);
+	if (verified.err || verified.subject.type !== "user") {
+		// The openauth client does not say why verification failed, so read exp
+		// from the (unverified) payload to tell an expired token apart
+		const expired = !!parseJWT(token) && isTokenExpired(token);
+		return {
+			error: (expired ? new TokenExpiredError() : new InvalidTokenError()).toResponse(),
+		};
+	}
+
+	if (subjectTenant(verified.subject.properties) !== tenantId) {
+		return {
+			error: new InvalidTokenError("Token was issued for another tenant", "TENANT_MISMATCH").toResponse(),
+		};
+	}
+
+	const { id, sid } = verified.subject.properties;
+	const blocked = await checkAccountStatus(env.AUTH_DB, id);
+	if (blocked) {
+		return { error: new AccountBlockedError(blocked.message, blocked.code).toResponse() };
+	}
+	if (sid && !(await touchSession(env.AUTH_DB, sid))) {
+		return {
+			error: new InvalidTokenError("Session has been revoked or expired", "SESSION_REVOKED").toResponse(),
+		};
+	}
+
+	return { userId: id, sessionToken: sid, mfa: subjectMfa(verified.subject.properties) };
+}
+
+/**
+ * Hand a password form post to the issuer and audit what it did with it.
+ * The issuer redirects when it accepts the form and re-renders the page with
+ * an error when it does not; failures after a successful password check are
+ * audited in the success callback instead.
+ */
+async function auditPasswordForm(
+	request: Request,
+	env: Env,
+	ctx: ExecutionContext,
+	app: IssuerApp,
+	tenantId: string,
+): Promise<Response> {
+	let form: FormData;
+	try {
+		form = await request.clone().formData();
+	} catch {
+		// Not a form post; the issuer answers it and there is nothing to audit
+		return app.fetch(request, env, ctx);
+	}
+	const response = await app.fetch(request, env, ctx);
+	const accepted = response.status === 302;
+
+	if (new URL(request.url).pathname === "/password/authorize") {
+		if (!accepted) {
+			const email = form.get("email")?.toString().toLowerCase() || null;
+			await recordAuditEvent(env.AUTH_DB, request, {
+				tenantId,
+				event: "login",
+				outcome: "failure",
+				targetId: email ? await findIdentityUser(env.AUTH_DB, tenantId, "password", email) : null,
+				details: { provider: "password", email, reason: "INVALID_CREDENTIALS" },
+			});
+		}
+	} else if (form.get("action") === "update" && accepted) {
+		// The reset flow keeps the email in its encrypted state cookie, so the
+		// completed reset is tied to the user by the "requested" entry before it
+		await recordAuditEvent(env.AUTH_DB, request, {
+			tenantId,
+			event: "password_reset",
+			details: { stage: "completed" },
+		});
+	}
+
+	return response;
+}
+
+async function getSubjectUser(env: Env, userId: string) {
+	const row = await env.AUTH_DB.prepare(
+		`SELECT email, role, first_name, last_name, status FROM user WHERE id = ?`,
 	)
-		.bind(
-			email,
-			profile?.given_name || null,
-			profile?.family_name || null,
-			profile?.picture || null,
-			profile?.given_name || null,
-			profile?.family_name || null,
-			profile?.picture || null
-		)
-		.first<{ id: string }>();
-	if (!result) {
-		throw new Error(`Unable to process user: ${email}`);
+		.bind(userId)
+		.first<{
+			email: string;
+			role: string | null;
+			first_name: string | null;
+			last_name: string | null;
+			status: AccountStatus;
+		}>();
+	if (!row) {
+		throw new Error(`Unable to load user ${userId}`);
 	}
-	console.log(`Found or created user ${result.id} with email ${email}`);
-	return result.id;
+	return row;
 }
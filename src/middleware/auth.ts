@@ -3,6 +3,23 @@
  * Provides route protection and user authentication utilities
  */
 
+import { safeParse } from 'valibot';
+import { verifyToken, createRateLimitKey, type TokenPayload } from '../helpers/token-validation';
+import { defaultRbacPolicy, type RbacPolicy } from '../helpers/rbac';
+import { touchSession } from '../helpers/sessions';
+import { checkAccountStatus } from '../helpers/account-status';
+import { SUPPORTED_SUBJECT_VERSIONS, UserSubjectSchema, subjectMfa, subjectTenant, subjectVersion } from '../subjects';
+import {
+  AccountBlockedError,
+  AuthError,
+  InsufficientScopeError,
+  InvalidTokenError,
+  MfaRequiredError,
+  MissingTokenError,
+  RateLimitedError,
+  TokenExpiredError
+} from '../helpers/auth-errors';
+
 export interface User {
   id: string;
   email?: string;
@@ -10,18 +27,39 @@ export interface User {
   last_name?: string;
   avatar_url?: string;
   role?: string;
+  name?: string; // Display name
+  status?: string; // Account status when the token was issued
+  session_id?: string; // Session token the access token is bound to
+  subject_version: number; // Schema version of the token's subject
+  tenant: string; // Tenant the user belongs to
+  amr: string[]; // How the user signed in (RFC 8176); empty on tokens from before subject v4
+  mfa: boolean; // Signed in with a second factor
 }
 
 export interface AuthConfig {
   authServerUrl: string;
+  audience: string | string[]; // Client ID(s) the worker accepts tokens for; tokens for any other client are refused
+  issuer?: string; // Defaults to authServerUrl
+  jwksUri?: string; // Defaults to `${issuer}/.well-known/jwks.json`
+  clockTolerance?: number; // Seconds of leeway for exp checks
+  sessionDb?: D1Database; // Issuer's AUTH_DB; when set, revoked sessions and blocked accounts are rejected
+  subjectVersions?: readonly number[]; // Subject versions to accept, default SUPPORTED_SUBJECT_VERSIONS
+  tenant?: string; // Only accept users of this tenant; set it in every tenant-specific worker
 }
 
 export interface AuthResult {
   user: User | null;
-  error?: string;
+  error?: AuthError; // Why the request was refused; render it with error.toResponse()
   status: number;
 }
 
+/**
+ * Result for a refused request
+ */
+function refused(error: AuthError): AuthResult {
+  return { user: null, error, status: error.status };
+}
+
 /**
  * Extract access token from request headers
  */
@@ -34,95 +72,209 @@ export function extractToken(request: Request): string | null {
 }
 
 /**
- * Validate access token with OpenAuth server
+ * Map a verified token payload to a middleware user
  */
-export async function validateToken(token: string, authServerUrl: string): Promise<User | null> {
+function userFromPayload(payload: TokenPayload): User {
+  const properties = payload.properties || {};
+  const user: User = {
+    id: properties.id ?? payload.sub,
+    email: properties.email ?? payload.email,
+    first_name: properties.first_name,
+    last_name: properties.last_name,
+    avatar_url: properties.avatar_url ?? payload.picture,
+    role: properties.role ?? payload.role,
+    name: properties.name ?? payload.name,
+    status: properties.status,
+    session_id: properties.sid,
+    subject_version: subjectVersion(properties),
+    tenant: subjectTenant(properties),
+    amr: Array.isArray(properties.amr) ? properties.amr : [],
+    mfa: subjectMfa(properties)
+  };
+
+  return Object.fromEntries(
+    Object.entries(user).filter(([_, value]) => value !== undefined)
+  ) as User;
+}
+
+/**
+ * Verify a token and, with a sessionDb, the account and session behind it
+ */
+async function authenticateToken(token: string, config: AuthConfig): Promise<AuthResult> {
+  const {
+    authServerUrl,
+    audience,
+    issuer,
+    jwksUri,
+    clockTolerance,
+    sessionDb,
+    subjectVersions = SUPPORTED_SUBJECT_VERSIONS,
+    tenant
+  } = config;
+
   try {
-    const response = await fetch(`${authServerUrl}/userinfo`, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      }
+    const result = await verifyToken(token, {
+      issuer: issuer || authServerUrl,
+      audience,
+      jwksUri,
+      clockTolerance
     });
 
-    if (!response.ok) {
-      return null;
+    if (!result.valid || !result.payload) {
+      return refused(result.expired ? new TokenExpiredError() : new InvalidTokenError());
+    }
+
+    // Only OpenAuth user subjects are checked against the shared schema
+    if (result.payload.type === 'user') {
+      const version = subjectVersion(result.payload.properties);
+      if (!subjectVersions.includes(version)) {
+        return refused(new InvalidTokenError(`Unsupported subject version ${version}`));
+      }
+      if (!safeParse(UserSubjectSchema, result.payload.properties).success) {
+        return refused(new InvalidTokenError('Invalid token subject'));
+      }
+    }
+
+    const user = userFromPayload(result.payload);
+    if (tenant && user.tenant !== tenant) {
+      return refused(new InvalidTokenError('Token was issued for another tenant', 'TENANT_MISMATCH'));
     }
 
-    return await response.json();
+    if (sessionDb) {
+      const blocked = await checkAccountStatus(sessionDb, user.id);
+      if (blocked) {
+        return refused(new AccountBlockedError(blocked.message, blocked.code));
+      }
+
+      // Reject tokens whose session was revoked and record activity
+      if (user.session_id && !(await touchSession(sessionDb, user.session_id))) {
+        return refused(new InvalidTokenError('Session has been revoked or expired', 'SESSION_REVOKED'));
+      }
+    }
+
+    return { user, status: 200 };
   } catch (error) {
     console.error('Token validation failed:', error);
-    return null;
+    return refused(new InvalidTokenError());
   }
 }
 
+/**
+ * Validate access token locally against the OpenAuth server's JWKS
+ */
+export async function validateToken(token: string, config: AuthConfig): Promise<User | null> {
+  return (await authenticateToken(token, config)).user;
+}
+
 /**
  * Require authentication for a route
  * Returns user if authenticated, null if not
  */
 export async function requireAuth(
   request: Request, 
-  authServerUrl: string
+  config: AuthConfig
 ): Promise<AuthResult> {
   const token = extractToken(request);
   
   if (!token) {
-    return {
-      user: null,
-      error: 'No authorization token provided',
-      status: 401
-    };
-  }
-
-  const user = await validateToken(token, authServerUrl);
-  
-  if (!user) {
-    return {
-      user: null,
-      error: 'Invalid or expired token',
-      status: 401
-    };
+    return refused(new MissingTokenError());
   }
 
-  return {
-    user,
-    status: 200
-  };
+  return authenticateToken(token, config);
 }
 
 /**
- * Require specific role for a route
- * Returns user if authenticated and has required role, null if not
+ * Authenticate the request and run an authorization check against the user
  */
-export async function requireRole(
+async function authorize(
   request: Request,
-  authServerUrl: string,
-  requiredRole: string
+  config: AuthConfig,
+  isAllowed: (user: User) => boolean,
+  error: AuthError
 ): Promise<AuthResult> {
-  const authResult = await requireAuth(request, authServerUrl);
+  const authResult = await requireAuth(request, config);
   
   if (!authResult.user) {
     return authResult;
   }
 
-  if (authResult.user.role !== requiredRole) {
-    return {
-      user: null,
-      error: `Required role: ${requiredRole}`,
-      status: 403
-    };
+  if (!isAllowed(authResult.user)) {
+    return refused(error);
   }
 
   return authResult;
 }
 
+/**
+ * Require specific role (or a role inheriting from it) for a route
+ * Returns user if authenticated and has required role, null if not
+ */
+export async function requireRole(
+  request: Request,
+  config: AuthConfig,
+  requiredRole: string,
+  policy: RbacPolicy = defaultRbacPolicy
+): Promise<AuthResult> {
+  return authorize(
+    request,
+    config,
+    user => policy.hasRole(user.role, requiredRole),
+    new InsufficientScopeError(`Required role: ${requiredRole}`, requiredRole)
+  );
+}
+
+/**
+ * Require any of the given roles for a route
+ */
+export async function requireAnyRole(
+  request: Request,
+  config: AuthConfig,
+  roles: string[],
+  policy: RbacPolicy = defaultRbacPolicy
+): Promise<AuthResult> {
+  return authorize(
+    request,
+    config,
+    user => policy.hasAnyRole(user.role, roles),
+    new InsufficientScopeError(`Required role: one of ${roles.join(', ')}`, roles.join(' '))
+  );
+}
+
+/**
+ * Require a permission (e.g. 'orders:refund') granted to the user's role
+ */
+export async function requirePermission(
+  request: Request,
+  config: AuthConfig,
+  permission: string,
+  policy: RbacPolicy = defaultRbacPolicy
+): Promise<AuthResult> {
+  return authorize(
+    request,
+    config,
+    user => policy.hasPermission(user.role, permission),
+    new InsufficientScopeError(`Required permission: ${permission}`, permission, 'INSUFFICIENT_PERMISSION')
+  );
+}
+
+/**
+ * Require a sign-in with a second factor, for sensitive routes. Users who
+ * signed in without one get an MfaRequiredError and should sign in again.
+ */
+export async function requireMfa(
+  request: Request,
+  config: AuthConfig
+): Promise<AuthResult> {
+  return authorize(request, config, user => user.mfa, new MfaRequiredError());
+}
+
 /**
  * Optional authentication - attach user if authenticated
  * Always returns success, but user may be null
  */
 export async function optionalAuth(
   request: Request,
-  authServerUrl: string
+  config: AuthConfig
 ): Promise<AuthResult> {
   const token = extractToken(request);
   
@@ -133,7 +285,7 @@ export async function optionalAuth(
     };
   }
 
-  const user = await validateToken(token, authServerUrl);
+  const user = await validateToken(token, config);
   
   return {
     user,
@@ -146,16 +298,13 @@ export async function optionalAuth(
  */
 export function createProtectedHandler(
   handler: (request: Request, user: User, env: any) => Promise<Response>,
-  authServerUrl: string
+  config: AuthConfig
 ) {
   return async (request: Request, env: any): Promise<Response> => {
-    const authResult = await requireAuth(request, authServerUrl);
+    const authResult = await requireAuth(request, config);
     
     if (!authResult.user) {
-      return new Response(JSON.stringify({ error: authResult.error }), {
-        status: authResult.status,
-        headers: { 'Content-Type': 'application/json' }
-      });
+      return authResult.error!.toResponse();
     }
 
     return handler(request, authResult.user, env);
@@ -167,17 +316,53 @@ export function createProtectedHandler(
  */
 export function createRoleProtectedHandler(
   handler: (request: Request, user: User, env: any) => Promise<Response>,
-  authServerUrl: string,
-  requiredRole: string
+  config: AuthConfig,
+  requiredRole: string,
+  policy: RbacPolicy = defaultRbacPolicy
+) {
+  return async (request: Request, env: any): Promise<Response> => {
+    const authResult = await requireRole(request, config, requiredRole, policy);
+    
+    if (!authResult.user) {
+      return authResult.error!.toResponse();
+    }
+
+    return handler(request, authResult.user, env);
+  };
+}
+
+/**
+ * Create a permission-based protected route handler
+ */
+export function createPermissionProtectedHandler(
+  handler: (request: Request, user: User, env: any) => Promise<Response>,
+  config: AuthConfig,
+  permission: string,
+  policy: RbacPolicy = defaultRbacPolicy
+) {
+  return async (request: Request, env: any): Promise<Response> => {
+    const authResult = await requirePermission(request, config, permission, policy);
+    
+    if (!authResult.user) {
+      return authResult.error!.toResponse();
+    }
+
+    return handler(request, authResult.user, env);
+  };
+}
+
+/**
+ * Create a route handler that requires a sign-in with a second factor
+ */
+export function createMfaProtectedHandler(
+  handler: (request: Request, user: User, env: any) => Promise<Response>,
+  config: AuthConfig
 ) {
   return async (request: Request, env: any): Promise<Response> => {
-    const authResult = await requireRole(request, authServerUrl, requiredRole);
+    const authResult = await requireMfa(request, config);
     
     if (!authResult.user) {
-      return new Response(JSON.stringify({ error: authResult.error }), {
-        status: authResult.status,
-        headers: { 'Content-Type': 'application/json' }
-      });
+      return authResult.error!.toResponse();
     }
 
     return handler(request, authResult.user, env);
@@ -189,20 +374,188 @@ export function createRoleProtectedHandler(
  */
 export function createOptionalAuthHandler(
   handler: (request: Request, user: User | null, env: any) => Promise<Response>,
-  authServerUrl: string
+  config: AuthConfig
 ) {
   return async (request: Request, env: any): Promise<Response> => {
-    const authResult = await optionalAuth(request, authServerUrl);
+    const authResult = await optionalAuth(request, config);
     return handler(request, authResult.user, env);
   };
 }
 
 /**
- * CORS headers for API responses
+ * An allowed origin: '*', an exact origin ('https://shop.example.com'),
+ * a wildcard subdomain ('https://*.example.com') or a RegExp
+ */
+export type CorsOrigin = string | RegExp;
+
+export interface CorsRouteOptions {
+  origins?: CorsOrigin[];
+  methods?: string[];
+  allowHeaders?: string[];
+  exposeHeaders?: string[];
+  credentials?: boolean; // Send Access-Control-Allow-Credentials; requires explicit origins
+  maxAge?: number; // Seconds browsers may cache a preflight
+}
+
+export interface CorsOptions extends CorsRouteOptions {
+  /**
+   * Overrides keyed by path prefix, e.g. { '/admin/': { origins: [...] } }.
+   * The longest matching prefix is merged over the top-level options.
+   */
+  routes?: Record<string, CorsRouteOptions>;
+}
+
+export interface CorsPolicy {
+  isOriginAllowed(origin: string, pathname?: string): boolean;
+  /**
+   * CORS headers for a request; without a request only wildcard access is granted
+   */
+  headers(request?: Request): Record<string, string>;
+  /**
+   * Response for a preflight request, or null if the request is not one
+   */
+  preflight(request: Request): Response | null;
+  apply(response: Response, request?: Request): Response;
+}
+
+const DEFAULT_CORS_OPTIONS: Required<CorsRouteOptions> = {
+  origins: ['*'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization'],
+  exposeHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'],
+  credentials: false,
+  maxAge: 86400
+};
+
+/**
+ * Compile an allowlist entry to a matcher for Origin header values
+ */
+function compileOrigin(origin: CorsOrigin): (value: string) => boolean {
+  if (origin instanceof RegExp) {
+    return value => origin.test(value);
+  }
+  if (origin === '*') {
+    return () => true;
+  }
+
+  const wildcard = origin.match(/^(https?:\/\/)\*\.(.+)$/i);
+  if (wildcard) {
+    // Subdomains only; the bare domain must be listed separately
+    const scheme = wildcard[1].toLowerCase();
+    const suffix = `.${wildcard[2].toLowerCase()}`;
+    return value => {
+      const lower = value.toLowerCase();
+      return lower.startsWith(scheme) && lower.endsWith(suffix) && lower.length > scheme.length + suffix.length
+        && !lower.slice(scheme.length, -suffix.length).includes('/');
+    };
+  }
+
+  const exact = origin.replace(/\/$/, '').toLowerCase();
+  return value => value.toLowerCase() === exact;
+}
+
+/**
+ * Create a CORS policy with origin allowlists and per-route overrides.
+ * Allowed origins are echoed back with `Vary: Origin` unless the policy is a
+ * plain wildcard without credentials.
+ */
+export function createCorsPolicy(options: CorsOptions = {}): CorsPolicy {
+  const { routes = {}, ...base } = options;
+
+  const compile = (routeOptions: CorsRouteOptions) => {
+    const resolved = { ...DEFAULT_CORS_OPTIONS, ...base, ...routeOptions };
+    const wildcard = resolved.origins.includes('*');
+    if (wildcard && resolved.credentials) {
+      throw new Error('CORS credentials cannot be combined with a wildcard origin');
+    }
+    return { ...resolved, wildcard, matchers: resolved.origins.map(compileOrigin) };
+  };
+
+  const defaultRule = compile({});
+  // Longest prefix first so the most specific override wins
+  const routeRules = Object.entries(routes)
+    .sort(([a], [b]) => b.length - a.length)
+    .map(([prefix, routeOptions]) => ({ prefix, rule: compile(routeOptions) }));
+
+  const ruleFor = (pathname?: string) => {
+    if (pathname) {
+      const match = routeRules.find(({ prefix }) => pathname.startsWith(prefix));
+      if (match) return match.rule;
+    }
+    return defaultRule;
+  };
+
+  const isOriginAllowed = (origin: string, pathname?: string) =>
+    ruleFor(pathname).matchers.some(matches => matches(origin));
+
+  const headers = (request?: Request): Record<string, string> => {
+    const rule = ruleFor(request && new URL(request.url).pathname);
+    const origin = request?.headers.get('Origin');
+    const result: Record<string, string> = {};
+
+    if (rule.wildcard && !rule.credentials) {
+      result['Access-Control-Allow-Origin'] = '*';
+    } else {
+      // The response differs per Origin, so caches must key on it
+      result['Vary'] = 'Origin';
+      if (!origin || !rule.matchers.some(matches => matches(origin))) {
+        return result;
+      }
+      result['Access-Control-Allow-Origin'] = origin;
+    }
+
+    if (rule.credentials) {
+      result['Access-Control-Allow-Credentials'] = 'true';
+    }
+    if (rule.exposeHeaders.length > 0) {
+      result['Access-Control-Expose-Headers'] = rule.exposeHeaders.join(', ');
+    }
+    return result;
+  };
+
+  const preflight = (request: Request): Response | null => {
+    if (request.method !== 'OPTIONS') return null;
+
+    const rule = ruleFor(new URL(request.url).pathname);
+    const result = headers(request);
+    if (result['Access-Control-Allow-Origin']) {
+      result['Access-Control-Allow-Methods'] = rule.methods.join(', ');
+      result['Access-Control-Allow-Headers'] = rule.allowHeaders.join(', ');
+      result['Access-Control-Max-Age'] = rule.maxAge.toString();
+    }
+    return new Response(null, { status: 204, headers: result });
+  };
+
+  const apply = (response: Response, request?: Request): Response => {
+    const newResponse = new Response(response.body, response);
+
+    Object.entries(headers(request)).forEach(([key, value]) => {
+      if (key === 'Vary') {
+        const vary = newResponse.headers.get('Vary') || '';
+        if (!/(^|,\s*)origin(\s*,|$)/i.test(vary)) newResponse.headers.append(key, value);
+      } else {
+        newResponse.headers.set(key, value);
+      }
+    });
+
+    return newResponse;
+  };
+
+  return { isOriginAllowed, headers, preflight, apply };
+}
+
+/**
+ * Wildcard policy used when no policy is passed; it does not allow credentials
+ */
+export const defaultCorsPolicy = createCorsPolicy();
+
+/**
+ * CORS headers of the default wildcard policy
+ * @deprecated Use a policy from createCorsPolicy, which can restrict origins
  */
 export const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
   'Access-Control-Max-Age': '86400',
 };
@@ -210,92 +563,265 @@ export const corsHeaders = {
 /**
  * Handle CORS preflight requests
  */
-export function handleCors(request: Request): Response | null {
-  if (request.method === 'OPTIONS') {
-    return new Response(null, {
-      status: 200,
-      headers: corsHeaders
-    });
+export function handleCors(request: Request, policy: CorsPolicy = defaultCorsPolicy): Response | null {
+  return policy.preflight(request);
+}
+
+/**
+ * Add CORS headers to response. Pass the request so allowlisted origins can
+ * be echoed back; without it only a wildcard policy grants access.
+ */
+export function addCorsHeaders(
+  response: Response,
+  request?: Request,
+  policy: CorsPolicy = defaultCorsPolicy
+): Response {
+  return policy.apply(response, request);
+}
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+/**
+ * Storage backend for rate limit state
+ */
+export interface RateLimitStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+}
+
+/**
+ * In-memory rate limit store, scoped to a single isolate (useful for tests)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
   }
-  return null;
 }
 
 /**
- * Add CORS headers to response
+ * KV-backed rate limit store, shared across isolates and cold starts.
+ * KV is eventually consistent, so bursts hitting different locations at the
+ * same moment may slightly exceed the limit.
  */
-export function addCorsHeaders(response: Response): Response {
-  const newResponse = new Response(response.body, response);
-  
-  Object.entries(corsHeaders).forEach(([key, value]) => {
-    newResponse.headers.set(key, value);
-  });
-  
-  return newResponse;
+export class KVRateLimitStore implements RateLimitStore {
+  private namespace: KVNamespace;
+
+  constructor(namespace: KVNamespace) {
+    this.namespace = namespace;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.namespace.get<T>(key, 'json');
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    // KV requires a TTL of at least 60 seconds
+    await this.namespace.put(key, JSON.stringify(value), {
+      expirationTtl: Math.max(60, Math.ceil(ttlMs / 1000))
+    });
+  }
+}
+
+export interface RateLimiterOptions {
+  algorithm?: RateLimitAlgorithm;
+  store?: RateLimitStore;
+  prefix?: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number; // Milliseconds until the budget is (partially) restored
+}
+
+interface SlidingWindowState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
 }
 
 /**
- * Rate limiting utility
+ * Rate limiting utility backed by a pluggable store
  */
 export class RateLimiter {
-  private requests = new Map<string, { count: number; resetTime: number }>();
   private limit: number;
   private windowMs: number;
+  private algorithm: RateLimitAlgorithm;
+  private store: RateLimitStore;
+  private prefix: string;
 
-  constructor(limit: number = 100, windowMs: number = 60000) {
+  constructor(limit: number = 100, windowMs: number = 60000, options: RateLimiterOptions = {}) {
     this.limit = limit;
     this.windowMs = windowMs;
+    this.algorithm = options.algorithm || 'sliding-window';
+    this.store = options.store || new MemoryRateLimitStore();
+    this.prefix = options.prefix || 'ratelimit';
+  }
+
+  async check(identifier: string): Promise<boolean> {
+    const result = await this.consume(identifier);
+    return result.allowed;
+  }
+
+  async getRemainingTime(identifier: string): Promise<number> {
+    const result = await this.peek(identifier);
+    return result.allowed ? 0 : result.resetMs;
   }
 
-  check(identifier: string): boolean {
+  /**
+   * Count a request against the identifier's budget
+   */
+  async consume(identifier: string): Promise<RateLimitResult> {
+    return this.algorithm === 'token-bucket'
+      ? this.tokenBucket(identifier, true)
+      : this.slidingWindow(identifier, true);
+  }
+
+  /**
+   * Inspect the identifier's budget without counting a request
+   */
+  async peek(identifier: string): Promise<RateLimitResult> {
+    return this.algorithm === 'token-bucket'
+      ? this.tokenBucket(identifier, false)
+      : this.slidingWindow(identifier, false);
+  }
+
+  /**
+   * Sliding window counter: weights the previous fixed window by how much of
+   * it still overlaps the trailing window
+   */
+  private async slidingWindow(identifier: string, consume: boolean): Promise<RateLimitResult> {
+    const key = `${this.prefix}:sw:${identifier}`;
     const now = Date.now();
-    const key = identifier;
-    const record = this.requests.get(key);
+    const windowStart = now - (now % this.windowMs);
+    const stored = await this.store.get<SlidingWindowState>(key);
 
-    if (!record || now > record.resetTime) {
-      this.requests.set(key, { count: 1, resetTime: now + this.windowMs });
-      return true;
+    let state: SlidingWindowState;
+    if (!stored || stored.windowStart <= windowStart - 2 * this.windowMs) {
+      state = { windowStart, current: 0, previous: 0 };
+    } else if (stored.windowStart < windowStart) {
+      state = { windowStart, current: 0, previous: stored.current };
+    } else {
+      state = stored;
     }
 
-    if (record.count >= this.limit) {
-      return false;
+    const overlap = 1 - (now - windowStart) / this.windowMs;
+    const weighted = state.previous * overlap + state.current;
+    const allowed = weighted + 1 <= this.limit;
+
+    if (consume && allowed) {
+      state.current++;
+      await this.store.set(key, state, 2 * this.windowMs);
     }
 
-    record.count++;
-    return true;
+    const used = consume && allowed ? weighted + 1 : weighted;
+    return {
+      allowed,
+      limit: this.limit,
+      remaining: Math.max(0, Math.floor(this.limit - used)),
+      resetMs: windowStart + this.windowMs - now
+    };
   }
 
-  getRemainingTime(identifier: string): number {
-    const record = this.requests.get(identifier);
-    if (!record) return 0;
-    return Math.max(0, record.resetTime - Date.now());
+  /**
+   * Token bucket: holds up to `limit` tokens, refilled evenly over `windowMs`
+   */
+  private async tokenBucket(identifier: string, consume: boolean): Promise<RateLimitResult> {
+    const key = `${this.prefix}:tb:${identifier}`;
+    const now = Date.now();
+    const refillPerMs = this.limit / this.windowMs;
+    const stored = await this.store.get<TokenBucketState>(key);
+
+    const tokens = stored
+      ? Math.min(this.limit, stored.tokens + (now - stored.updatedAt) * refillPerMs)
+      : this.limit;
+    const allowed = tokens >= 1;
+    const remainingTokens = consume && allowed ? tokens - 1 : tokens;
+
+    if (consume && allowed) {
+      await this.store.set<TokenBucketState>(key, { tokens: remainingTokens, updatedAt: now }, this.windowMs);
+    }
+
+    return {
+      allowed,
+      limit: this.limit,
+      remaining: Math.floor(remainingTokens),
+      resetMs: remainingTokens >= 1
+        ? Math.ceil((this.limit - remainingTokens) / refillPerMs)
+        : Math.ceil((1 - remainingTokens) / refillPerMs)
+    };
   }
 }
 
 /**
- * Apply rate limiting to a request
+ * Standard RateLimit-* headers for a rate limit result
  */
-export function applyRateLimit(
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': Math.ceil(result.resetMs / 1000).toString()
+  };
+}
+
+/**
+ * Add RateLimit-* headers to response
+ */
+export function addRateLimitHeaders(response: Response, result: RateLimitResult): Response {
+  const newResponse = new Response(response.body, response);
+
+  Object.entries(rateLimitHeaders(result)).forEach(([key, value]) => {
+    newResponse.headers.set(key, value);
+  });
+
+  return newResponse;
+}
+
+export interface RateLimitOutcome {
+  result: RateLimitResult;
+  response: Response | null; // 429 response when the request was refused
+}
+
+/**
+ * Apply rate limiting to a request. When it is allowed, pass the result to
+ * addRateLimitHeaders so the response still reports the remaining budget.
+ */
+export async function applyRateLimit(
   request: Request,
   rateLimiter: RateLimiter,
-  identifier?: string
-): Response | null {
-  const clientIP = request.headers.get('CF-Connecting-IP') || 'unknown';
-  const key = identifier || clientIP;
+  identifier?: string,
+  cors: CorsPolicy = defaultCorsPolicy
+): Promise<RateLimitOutcome> {
+  const key = createRateLimitKey(request, identifier);
+  const result = await rateLimiter.consume(key);
   
-  if (!rateLimiter.check(key)) {
-    const remainingTime = rateLimiter.getRemainingTime(key);
-    return new Response(JSON.stringify({
-      error: 'Rate limit exceeded',
-      retryAfter: Math.ceil(remainingTime / 1000)
-    }), {
-      status: 429,
-      headers: {
-        'Content-Type': 'application/json',
-        'Retry-After': Math.ceil(remainingTime / 1000).toString(),
-        ...corsHeaders
-      }
-    });
+  if (!result.allowed) {
+    return {
+      result,
+      response: new RateLimitedError(Math.ceil(result.resetMs / 1000)).toResponse({
+        ...rateLimitHeaders(result),
+        ...cors.headers(request)
+      })
+    };
   }
   
-  return null;
+  return { result, response: null };
 }
@@ -0,0 +1,281 @@
+/**
+ * Declarative Router for API Workers
+ * Routes declare their method, path and auth requirement; the router applies
+ * CORS, rate limiting and JSON error responses around every handler
+ */
+
+import {
+  addRateLimitHeaders,
+  applyRateLimit,
+  defaultCorsPolicy,
+  optionalAuth,
+  requireAnyRole,
+  requireAuth,
+  requireMfa,
+  requirePermission,
+  requireRole,
+  type AuthConfig,
+  type AuthResult,
+  type CorsPolicy,
+  type RateLimiter,
+  type RateLimitResult,
+  type User
+} from './auth';
+import { defaultRbacPolicy, type RbacPolicy } from '../helpers/rbac';
+import { MfaRequiredError } from '../helpers/auth-errors';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Who may call a route. `role` accepts a list to allow any of several roles.
+ * 'mfa', or `mfa: true` on a role or permission, also requires the user to
+ * have signed in with a second factor.
+ */
+export type RouteAuth =
+  | 'public'
+  | 'optional'
+  | 'authenticated'
+  | 'mfa'
+  | { role: string | string[]; mfa?: boolean }
+  | { permission: string; mfa?: boolean };
+
+export interface RouterContext<E = any> {
+  user: User | null; // Always set for authenticated, mfa, role and permission routes
+  params: Record<string, string>;
+  env: E;
+  ctx?: ExecutionContext;
+}
+
+export type RouteHandler<E = any> = (request: Request, context: RouterContext<E>) => Promise<Response> | Response;
+
+export interface RouteDefinition<E = any> {
+  method: HttpMethod | HttpMethod[];
+  /**
+   * Path pattern with `:name` params and an optional trailing `*`,
+   * e.g. '/api/products/:id' or '/api/files/*'
+   */
+  path: string;
+  auth?: RouteAuth; // Defaults to the router's defaultAuth
+  rateLimiter?: RateLimiter | false; // Overrides the router's limiter; false disables it
+  description?: string;
+  handler: RouteHandler<E>;
+}
+
+export interface RouteDescription {
+  method: HttpMethod[];
+  path: string;
+  auth: RouteAuth;
+  description?: string;
+}
+
+export interface RouterOptions<E = any> {
+  /**
+   * Auth server and accepted audience, or a function reading them from the Worker env
+   */
+  auth: AuthConfig | ((env: E) => AuthConfig);
+  defaultAuth?: RouteAuth; // Defaults to 'authenticated'
+  cors?: CorsPolicy;
+  rateLimiter?: RateLimiter;
+  rbac?: RbacPolicy;
+}
+
+interface CompiledRoute<E> extends RouteDefinition<E> {
+  methods: HttpMethod[];
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+/**
+ * Compile a path pattern to a regex, capturing `:name` segments and a
+ * trailing `*` (exposed as the `*` param)
+ */
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  const source = path
+    .split('/')
+    .map(segment => {
+      if (segment === '*') {
+        paramNames.push('*');
+        return '(.*)';
+      }
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+
+  return { pattern: new RegExp(`^${source}/?$`), paramNames };
+}
+
+/**
+ * JSON error body used for every response the router generates itself
+ */
+function jsonError(error: string, status: number, headers?: Record<string, string>): Response {
+  return Response.json({ error }, { status, headers });
+}
+
+export class Router<E = any> {
+  private options: RouterOptions<E>;
+  private routeTable: CompiledRoute<E>[] = [];
+
+  constructor(options: RouterOptions<E>) {
+    this.options = options;
+  }
+
+  /**
+   * Register a route. Routes are matched in registration order.
+   */
+  add(definition: RouteDefinition<E>): this {
+    const methods = Array.isArray(definition.method) ? definition.method : [definition.method];
+    this.routeTable.push({ ...definition, methods, ...compilePath(definition.path) });
+    return this;
+  }
+
+  get(path: string, auth: RouteAuth, handler: RouteHandler<E>, description?: string): this {
+    return this.add({ method: 'GET', path, auth, handler, description });
+  }
+
+  post(path: string, auth: RouteAuth, handler: RouteHandler<E>, description?: string): this {
+    return this.add({ method: 'POST', path, auth, handler, description });
+  }
+
+  put(path: string, auth: RouteAuth, handler: RouteHandler<E>, description?: string): this {
+    return this.add({ method: 'PUT', path, auth, handler, description });
+  }
+
+  patch(path: string, auth: RouteAuth, handler: RouteHandler<E>, description?: string): this {
+    return this.add({ method: 'PATCH', path, auth, handler, description });
+  }
+
+  delete(path: string, auth: RouteAuth, handler: RouteHandler<E>, description?: string): this {
+    return this.add({ method: 'DELETE', path, auth, handler, description });
+  }
+
+  /**
+   * List registered routes, e.g. to generate API documentation
+   */
+  routes(): RouteDescription[] {
+    return this.routeTable.map(route => ({
+      method: route.methods,
+      path: route.path,
+      auth: route.auth ?? this.defaultAuth,
+      description: route.description
+    }));
+  }
+
+  /**
+   * Dispatch a request. Usable directly as a Worker's fetch handler.
+   */
+  fetch = async (request: Request, env: E, ctx?: ExecutionContext): Promise<Response> => {
+    const cors = this.options.cors ?? defaultCorsPolicy;
+
+    const preflight = cors.preflight(request);
+    if (preflight) return preflight;
+
+    const response = await this.dispatch(request, env, ctx);
+    return cors.apply(response, request);
+  };
+
+  private get defaultAuth(): RouteAuth {
+    return this.options.defaultAuth ?? 'authenticated';
+  }
+
+  private async dispatch(request: Request, env: E, ctx?: ExecutionContext): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    const method = request.method === 'HEAD' ? 'GET' : request.method;
+
+    const allowed = new Set<HttpMethod>();
+    for (const route of this.routeTable) {
+      const match = pathname.match(route.pattern);
+      if (!match) continue;
+
+      if (!route.methods.includes(method as HttpMethod)) {
+        route.methods.forEach(routeMethod => allowed.add(routeMethod));
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      try {
+        route.paramNames.forEach((name, index) => {
+          params[name] = decodeURIComponent(match[index + 1]);
+        });
+      } catch {
+        // Malformed percent-encoding, e.g. %E0%A4
+        return jsonError('Bad Request', 400);
+      }
+
+      return this.run(route, request, { user: null, params, env, ctx });
+    }
+
+    if (allowed.size > 0) {
+      return jsonError('Method not allowed', 405, { 'Allow': [...allowed].join(', ') });
+    }
+    return jsonError('Not Found', 404);
+  }
+
+  private async run(route: CompiledRoute<E>, request: Request, context: RouterContext<E>): Promise<Response> {
+    const limiter = route.rateLimiter === false ? null : route.rateLimiter ?? this.options.rateLimiter;
+    let rateLimit: RateLimitResult | null = null;
+    if (limiter) {
+      const outcome = await applyRateLimit(request, limiter, undefined, this.options.cors);
+      if (outcome.response) return outcome.response;
+      rateLimit = outcome.result;
+    }
+
+    const response = await this.runHandler(route, request, context);
+    return rateLimit ? addRateLimitHeaders(response, rateLimit) : response;
+  }
+
+  private async runHandler(route: CompiledRoute<E>, request: Request, context: RouterContext<E>): Promise<Response> {
+    const authResult = await this.authenticate(request, context.env, route.auth ?? this.defaultAuth);
+    if (authResult.error) {
+      return authResult.error.toResponse();
+    }
+
+    try {
+      return await route.handler(request, { ...context, user: authResult.user });
+    } catch (error) {
+      console.error(`Route ${request.method} ${route.path} failed:`, error);
+      return jsonError('Internal Server Error', 500);
+    }
+  }
+
+  private async authenticate(request: Request, env: E, auth: RouteAuth): Promise<AuthResult> {
+    const { rbac = defaultRbacPolicy } = this.options;
+    const authConfig = typeof this.options.auth === 'function' ? this.options.auth(env) : this.options.auth;
+
+    if (auth === 'public') {
+      return { user: null, status: 200 };
+    }
+    if (auth === 'optional') {
+      return optionalAuth(request, authConfig);
+    }
+    if (auth === 'authenticated') {
+      return requireAuth(request, authConfig);
+    }
+    if (auth === 'mfa') {
+      return requireMfa(request, authConfig);
+    }
+
+    const authResult = 'permission' in auth
+      ? await requirePermission(request, authConfig, auth.permission, rbac)
+      : Array.isArray(auth.role)
+        ? await requireAnyRole(request, authConfig, auth.role, rbac)
+        : await requireRole(request, authConfig, auth.role, rbac);
+
+    if (auth.mfa && authResult.user && !authResult.user.mfa) {
+      const error = new MfaRequiredError();
+      return { user: null, error, status: error.status };
+    }
+    return authResult;
+  }
+}
+
+/**
+ * Create a router for an API worker
+ */
+export function createRouter<E = any>(options: RouterOptions<E>): Router<E> {
+  return new Router<E>(options);
+}
@@ -0,0 +1,115 @@
+/**
+ * /addresses routes
+ * CRUD for the caller's address book
+ *
+ *   GET    /addresses      list addresses
+ *   POST   /addresses      create an address
+ *   GET    /addresses/:id  get an address
+ *   PUT    /addresses/:id  replace an address
+ *   PATCH  /addresses/:id  update some fields of an address
+ *   DELETE /addresses/:id  delete an address
+ */
+
+import { flatten, safeParse } from 'valibot';
+import { handleCors, addCorsHeaders } from '../middleware/auth';
+import {
+  AddressInputSchema,
+  createAddress,
+  deleteAddress,
+  getAddress,
+  listAddresses,
+  updateAddress,
+  type UserAddress
+} from '../helpers/addresses';
+import type { RouteContext } from './context';
+
+const ADDRESS_INPUT_FIELDS = Object.keys(AddressInputSchema.pipe[0].entries);
+
+/**
+ * Validate a request body as an address, optionally on top of an existing one
+ */
+async function parseAddressBody(request: Request, base?: UserAddress) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return { error: Response.json({ error: 'Request body must be JSON' }, { status: 400 }) };
+  }
+
+  let input = body;
+  if (base && body && typeof body === 'object') {
+    // Only the fields the schema accepts; stored columns like id and tenant_id
+    // would be rejected as unknown keys
+    const fields = Object.fromEntries(
+      ADDRESS_INPUT_FIELDS.map(field => [field, base[field as keyof UserAddress]])
+    );
+    input = { ...fields, ...body };
+  }
+
+  const result = safeParse(AddressInputSchema, input);
+  if (!result.success) {
+    return {
+      error: Response.json({
+        error: 'Invalid address',
+        issues: flatten<typeof AddressInputSchema>(result.issues)
+      }, { status: 400 })
+    };
+  }
+
+  return { input: result.output };
+}
+
+export async function handleAddresses(request: Request, context: RouteContext): Promise<Response> {
+  const corsResponse = handleCors(request, context.cors);
+  if (corsResponse) return corsResponse;
+
+  const auth = await context.authenticate(request);
+  if ('error' in auth) {
+    return addCorsHeaders(auth.error, request, context.cors);
+  }
+
+  const db = context.env.AUTH_DB;
+  const addressId = new URL(request.url).pathname.split('/')[2];
+
+  if (!addressId) {
+    if (request.method === 'GET') {
+      return addCorsHeaders(Response.json({ addresses: await listAddresses(db, auth.userId) }), request, context.cors);
+    }
+
+    if (request.method === 'POST') {
+      const parsed = await parseAddressBody(request);
+      if (parsed.error) return addCorsHeaders(parsed.error, request, context.cors);
+
+      const address = await createAddress(db, auth.userId, parsed.input);
+      return addCorsHeaders(Response.json({ address }, { status: 201 }), request, context.cors);
+    }
+
+    return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+  }
+
+  const existing = await getAddress(db, auth.userId, addressId);
+  if (!existing) {
+    return addCorsHeaders(Response.json({ error: 'Address not found' }, { status: 404 }), request, context.cors);
+  }
+
+  switch (request.method) {
+    case 'GET':
+      return addCorsHeaders(Response.json({ address: existing }), request, context.cors);
+
+    case 'PUT':
+    case 'PATCH': {
+      const parsed = await parseAddressBody(request, request.method === 'PATCH' ? existing : undefined);
+      if (parsed.error) return addCorsHeaders(parsed.error, request, context.cors);
+
+      const address = await updateAddress(db, auth.userId, existing, parsed.input);
+      return addCorsHeaders(Response.json({ address }), request, context.cors);
+    }
+
+    case 'DELETE':
+      await deleteAddress(db, auth.userId, existing);
+      return addCorsHeaders(new Response(null, { status: 204 }), request, context.cors);
+
+    default:
+      return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * /admin/audit routes
+ * Review the security audit log (admin only)
+ *
+ *   GET /admin/audit         query entries (?event, outcome, actor_id, target_id, user_id,
+ *                            ip_address, after, before, page, per_page)
+ *   GET /admin/audit/export  download every matching entry (same filters, ?format=csv|json)
+ */
+
+import { flatten, safeParse } from 'valibot';
+import { handleCors, addCorsHeaders } from '../middleware/auth';
+import { AuditQuerySchema, auditLogToCsv, exportAuditLog, queryAuditLog } from '../helpers/audit';
+import { requireIssuerRole } from './guards';
+import type { RouteContext } from './context';
+
+export async function handleAdminAudit(request: Request, context: RouteContext): Promise<Response> {
+  const corsResponse = handleCors(request, context.cors);
+  if (corsResponse) return corsResponse;
+
+  const auth = await requireIssuerRole(request, context, 'admin');
+  if ('error' in auth) {
+    return addCorsHeaders(auth.error, request, context.cors);
+  }
+
+  const url = new URL(request.url);
+  const action = url.pathname.split('/')[3];
+
+  if (request.method !== 'GET') {
+    return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+  }
+  if (action && action !== 'export') {
+    return addCorsHeaders(Response.json({ error: 'Unknown action' }, { status: 404 }), request, context.cors);
+  }
+
+  const params = Object.fromEntries(url.searchParams);
+  const format = params.format || 'json';
+  delete params.format;
+
+  const result = safeParse(AuditQuerySchema, params);
+  if (!result.success) {
+    return addCorsHeaders(Response.json({
+      error: 'Invalid audit query',
+      issues: flatten<typeof AuditQuerySchema>(result.issues)
+    }, { status: 400 }), request, context.cors);
+  }
+
+  const db = context.env.AUTH_DB;
+
+  if (!action) {
+    return addCorsHeaders(Response.json(await queryAuditLog(db, context.tenant.id, result.output)), request, context.cors);
+  }
+
+  if (format !== 'csv' && format !== 'json') {
+    return addCorsHeaders(Response.json({ error: 'format must be csv or json' }, { status: 400 }), request, context.cors);
+  }
+
+  const entries = await exportAuditLog(db, context.tenant.id, result.output);
+  const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+  const body = format === 'csv' ? auditLogToCsv(entries) : JSON.stringify({ entries }, null, 2);
+
+  return addCorsHeaders(new Response(body, {
+    headers: {
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store'
+    }
+  }), request, context.cors);
+}
@@ -0,0 +1,111 @@
+/**
+ * /admin/clients routes
+ * Manage the OAuth client registry (admin only)
+ *
+ *   GET  /admin/clients                    list clients
+ *   POST /admin/clients                    register a client
+ *   GET  /admin/clients/:id                get a client
+ *   POST /admin/clients/:id/rotate-secret  issue a new client secret
+ *   POST /admin/clients/:id/disable        disable a client
+ *   POST /admin/clients/:id/enable         re-enable a client
+ */
+
+import { flatten, safeParse } from 'valibot';
+import { handleCors, addCorsHeaders } from '../middleware/auth';
+import {
+  ClientRegistrationSchema,
+  getClient,
+  listClients,
+  registerClient,
+  rotateClientSecret,
+  setClientDisabled
+} from '../helpers/clients';
+import { recordAuditEvent } from '../helpers/audit';
+import { requireIssuerRole } from './guards';
+import type { RouteContext } from './context';
+
+export async function handleAdminClients(request: Request, context: RouteContext): Promise<Response> {
+  const corsResponse = handleCors(request, context.cors);
+  if (corsResponse) return corsResponse;
+
+  const auth = await requireIssuerRole(request, context, 'admin');
+  if ('error' in auth) {
+    return addCorsHeaders(auth.error, request, context.cors);
+  }
+
+  const db = context.env.AUTH_DB;
+  const tenantId = context.tenant.id;
+  const [, , , clientId, action] = new URL(request.url).pathname.split('/');
+
+  if (!clientId) {
+    if (request.method === 'GET') {
+      return addCorsHeaders(Response.json({ clients: await listClients(db, tenantId) }), request, context.cors);
+    }
+
+    if (request.method === 'POST') {
+      const body = await request.json().catch(() => null);
+      const result = safeParse(ClientRegistrationSchema, body);
+      if (!result.success) {
+        return addCorsHeaders(Response.json({
+          error: 'Invalid client registration',
+          issues: flatten<typeof ClientRegistrationSchema>(result.issues)
+        }, { status: 400 }), request, context.cors);
+      }
+
+      const registered = await registerClient(db, tenantId, result.output);
+      await recordAuditEvent(db, request, {
+        tenantId,
+        event: 'client_register',
+        actorId: auth.userId,
+        targetId: registered.client.id,
+        details: { name: registered.client.name }
+      });
+      return addCorsHeaders(Response.json(registered, { status: 201 }), request, context.cors);
+    }
+
+    return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+  }
+
+  const client = await getClient(db, tenantId, clientId);
+  if (!client) {
+    return addCorsHeaders(Response.json({ error: 'Client not found' }, { status: 404 }), request, context.cors);
+  }
+
+  if (request.method === 'GET' && !action) {
+    return addCorsHeaders(Response.json({ client }), request, context.cors);
+  }
+
+  if (request.method !== 'POST') {
+    return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+  }
+
+  switch (action) {
+    case 'rotate-secret': {
+      const clientSecret = await rotateClientSecret(db, tenantId, clientId);
+      if (!clientSecret) {
+        return addCorsHeaders(Response.json({ error: 'Public clients have no secret' }, { status: 400 }), request, context.cors);
+      }
+      await recordAuditEvent(db, request, {
+        tenantId,
+        event: 'client_secret_rotate',
+        actorId: auth.userId,
+        targetId: clientId
+      });
+      return addCorsHeaders(Response.json({ client_id: clientId, client_secret: clientSecret }), request, context.cors);
+    }
+
+    case 'disable':
+    case 'enable':
+      await setClientDisabled(db, tenantId, clientId, action === 'disable');
+      await recordAuditEvent(db, request, {
+        tenantId,
+        event: action === 'disable' ? 'client_disable' : 'client_enable',
+        actorId: auth.userId,
+        targetId: clientId
+      });
+      return addCorsHeaders(Response.json({ client: await getClient(db, tenantId, clientId) }), request, context.cors);
+
+    default:
+      return addCorsHeaders(Response.json({ error: 'Unknown action' }, { status: 404 }), request, context.cors);
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * /admin/users routes
+ * Look up and manage customer accounts (admin only)
+ *
+ *   GET  /admin/users               search users (?q, role, status, created_after, created_before,
+ *                                   last_login_after, last_login_before, sort, order, page, per_page)
+ *   GET  /admin/users/:id           get a user with their addresses and active sessions
+ *   PUT  /admin/users/:id/role      change a user's role ({ role }) and sign them out
+ *   PUT  /admin/users/:id/status    suspend, deactivate or reactivate a user ({ status, reason? })
+ *   POST /admin/users/:id/sign-out  revoke all of a user's sessions
+ */
+
+import { flatten, maxLength, nullable, object, optional, picklist, pipe, safeParse, string, trim } from 'valibot';
+import { handleCors, addCorsHeaders } from '../middleware/auth';
+import { getAdminUser, searchUsers, setUserRole, UserSearchSchema } from '../helpers/users';
+import { listAddresses } from '../helpers/addresses';
+import { listActiveSessions, revokeAllSessions } from '../helpers/sessions';
+import { loadRbacPolicy } from '../helpers/rbac';
+import { ACCOUNT_STATUSES, setAccountStatus } from '../helpers/account-status';
+import { recordAuditEvent } from '../helpers/audit';
+import { requireIssuerRole } from './guards';
+import type { RouteContext } from './context';
+
+const StatusChangeSchema = object({
+  status: picklist(ACCOUNT_STATUSES),
+  reason: optional(nullable(pipe(string(), trim(), maxLength(500))))
+});
+
+export async function handleAdminUsers(request: Request, context: RouteContext): Promise<Response> {
+  const corsResponse = handleCors(request, context.cors);
+  if (corsResponse) return corsResponse;
+
+  const auth = await requireIssuerRole(request, context, 'admin');
+  if ('error' in auth) {
+    return addCorsHeaders(auth.error, request, context.cors);
+  }
+
+  const db = context.env.AUTH_DB;
+  const tenantId = context.tenant.id;
+  const url = new URL(request.url);
+  const [, , , userId, action] = url.pathname.split('/');
+
+  if (!userId) {
+    if (request.method !== 'GET') {
+      return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+    }
+
+    const result = safeParse(UserSearchSchema, Object.fromEntries(url.searchParams));
+    if (!result.success) {
+      return addCorsHeaders(Response.json({
+        error: 'Invalid search',
+        issues: flatten<typeof UserSearchSchema>(result.issues)
+      }, { status: 400 }), request, context.cors);
+    }
+
+    return addCorsHeaders(Response.json(await searchUsers(db, tenantId, result.output)), request, context.cors);
+  }
+
+  const user = await getAdminUser(db, tenantId, userId);
+  if (!user) {
+    return addCorsHeaders(Response.json({ error: 'User not found' }, { status: 404 }), request, context.cors);
+  }
+
+  if (!action) {
+    if (request.method !== 'GET') {
+      return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+    }
+
+    const [addresses, sessions] = await Promise.all([
+      listAddresses(db, userId),
+      listActiveSessions(db, userId)
+    ]);
+    return addCorsHeaders(Response.json({ user, addresses, sessions }), request, context.cors);
+  }
+
+  if (action === 'role') {
+    if (request.method !== 'PUT') {
+      return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+    }
+
+    const body = await request.json<{ role?: unknown }>().catch(() => null);
+    const role = typeof body?.role === 'string' ? body.role.trim() : '';
+    const policy = await loadRbacPolicy(db);
+
+    if (!policy.roles[role]) {
+      return addCorsHeaders(Response.json({
+        error: 'Unknown role',
+        roles: Object.keys(policy.roles)
+      }, { status: 400 }), request, context.cors);
+    }
+    // Keep admins from locking themselves out
+    if (userId === auth.userId && !policy.hasRole(role, 'admin')) {
+      return addCorsHeaders(
+        Response.json({ error: 'You cannot remove your own admin role' }, { status: 400 }),
+        request,
+        context.cors
+      );
+    }
+
+    const updated = await setUserRole(db, tenantId, userId, role);
+    await recordAuditEvent(db, request, {
+      tenantId,
+      event: 'role_change',
+      actorId: auth.userId,
+      targetId: userId,
+      details: { from: user.role ?? null, to: role }
+    });
+    return addCorsHeaders(Response.json({ user: updated }), request, context.cors);
+  }
+
+  if (action === 'status') {
+    if (request.method !== 'PUT') {
+      return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+    }
+
+    const result = safeParse(StatusChangeSchema, await request.json().catch(() => null));
+    if (!result.success) {
+      return addCorsHeaders(Response.json({
+        error: 'Invalid status change',
+        issues: flatten<typeof StatusChangeSchema>(result.issues)
+      }, { status: 400 }), request, context.cors);
+    }
+    if (userId === auth.userId && result.output.status !== 'active') {
+      return addCorsHeaders(
+        Response.json({ error: 'You cannot block your own account' }, { status: 400 }),
+        request,
+        context.cors
+      );
+    }
+
+    await setAccountStatus(db, userId, result.output.status, result.output.reason ?? null);
+    await recordAuditEvent(db, request, {
+      tenantId,
+      event: 'status_change',
+      actorId: auth.userId,
+      targetId: userId,
+      details: { from: user.status, to: result.output.status, reason: result.output.reason ?? null }
+    });
+    return addCorsHeaders(Response.json({ user: await getAdminUser(db, tenantId, userId) }), request, context.cors);
+  }
+
+  if (action === 'sign-out') {
+    if (request.method !== 'POST') {
+      return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+    }
+    const revoked = await revokeAllSessions(db, userId);
+    await recordAuditEvent(db, request, {
+      tenantId,
+      event: 'admin_sign_out',
+      actorId: auth.userId,
+      targetId: userId,
+      details: { revoked }
+    });
+    return addCorsHeaders(Response.json({ revoked }), request, context.cors);
+  }
+
+  return addCorsHeaders(Response.json({ error: 'Unknown action' }, { status: 404 }), request, context.cors);
+}
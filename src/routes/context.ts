@@ -0,0 +1,33 @@
+/**
+ * Shared context passed to the issuer's own API routes
+ */
+
+import type { StorageAdapter } from '@openauthjs/openauth/storage/storage';
+import type { CorsPolicy } from '../middleware/auth';
+import type { IssuerConfig } from '../helpers/config';
+import type { Tenant } from '../helpers/tenants';
+
+export interface AuthenticatedSubject {
+  userId: string;
+  sessionToken?: string;
+  mfa: boolean; // Signed in with a second factor
+}
+
+export type AuthenticateResult = AuthenticatedSubject | { error: Response };
+
+export interface RouteContext {
+  env: Env;
+  ctx: ExecutionContext;
+  config: IssuerConfig; // As seen by the tenant
+  tenant: Tenant;
+  storage: StorageAdapter; // The issuer's storage, scoped to the tenant
+  cors: CorsPolicy;
+  /**
+   * Verify the request's bearer token against this issuer and its session
+   */
+  authenticate(request: Request): Promise<AuthenticateResult>;
+  /**
+   * Hand the request to the OpenAuth issuer app
+   */
+  forward(request: Request): Promise<Response>;
+}
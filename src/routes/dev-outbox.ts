@@ -0,0 +1,41 @@
+/**
+ * /dev/outbox routes (local development only)
+ * Inspect emails captured by the local outbox. Off unless DEV_OUTBOX=true,
+ * and only served to requests made to the local dev server.
+ *
+ *   GET    /dev/outbox?to=email  list captured messages, newest first
+ *   DELETE /dev/outbox           clear captured messages
+ */
+
+import { OutboxEmailProvider } from '../helpers/email';
+import type { IssuerConfig } from '../helpers/config';
+import type { RouteContext } from './context';
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * The outbox lists sign-in and reset codes, so it is only exposed when
+ * explicitly enabled and to requests for the local dev server
+ */
+export function isOutboxEnabled(config: IssuerConfig, request: Request): boolean {
+  return config.email.devOutbox && LOCAL_HOSTNAMES.includes(new URL(request.url).hostname);
+}
+
+export async function handleDevOutbox(request: Request, context: RouteContext): Promise<Response> {
+  if (!isOutboxEnabled(context.config, request)) {
+    return new Response('Not Found', { status: 404 });
+  }
+
+  const outbox = new OutboxEmailProvider(context.env.AUTH_STORAGE);
+
+  if (request.method === 'GET') {
+    const to = new URL(request.url).searchParams.get('to') || undefined;
+    return Response.json({ messages: await outbox.list(to) });
+  }
+
+  if (request.method === 'DELETE') {
+    return Response.json({ deleted: await outbox.clear() });
+  }
+
+  return new Response('Method not allowed', { status: 405 });
+}
@@ -0,0 +1,45 @@
+/**
+ * Authorization guards for the issuer's own API routes
+ */
+
+import { InsufficientScopeError, MfaRequiredError } from '../helpers/auth-errors';
+import { isMfaRequired } from '../helpers/mfa';
+import { loadRbacPolicy } from '../helpers/rbac';
+import type { AuthenticateResult, AuthenticatedSubject, RouteContext } from './context';
+
+export interface AuthorizedSubject extends AuthenticatedSubject {
+  role: string;
+}
+
+/**
+ * Authenticate the request and require the caller's current D1 role to meet
+ * or inherit the required role. Roles the tenant's MFA policy covers must
+ * also have signed in with a second factor.
+ */
+export async function requireIssuerRole(
+  request: Request,
+  context: RouteContext,
+  requiredRole: string
+): Promise<AuthorizedSubject | Extract<AuthenticateResult, { error: Response }>> {
+  const auth = await context.authenticate(request);
+  if ('error' in auth) return auth;
+
+  const db = context.env.AUTH_DB;
+  const row = await db.prepare(`SELECT role FROM user WHERE id = ?`)
+    .bind(auth.userId)
+    .first<{ role: string | null }>();
+  const role = row?.role || 'customer';
+  const policy = await loadRbacPolicy(db);
+
+  if (!policy.hasRole(role, requiredRole)) {
+    return {
+      error: new InsufficientScopeError(`Required role: ${requiredRole}`, requiredRole).toResponse()
+    };
+  }
+
+  if (!auth.mfa && isMfaRequired(policy, role, context.config.mfa.requiredRoles)) {
+    return { error: new MfaRequiredError().toResponse() };
+  }
+
+  return { ...auth, role };
+}
@@ -0,0 +1,202 @@
+/**
+ * /identities routes
+ * List, link and unlink the caller's login methods
+ *
+ *   GET    /identities             list linked identities
+ *   POST   /identities/link        start linking a provider ({ provider, client_id, redirect_uri })
+ *   GET    /identities/link/start  browser entry point returned by POST /identities/link;
+ *                                   shows the account being linked to
+ *   POST   /identities/link/start  confirm it and continue to the provider
+ *   DELETE /identities/:id         unlink an identity (not the last one)
+ */
+
+import { handleCors, addCorsHeaders } from '../middleware/auth';
+import {
+  LINK_INTENT_TTL_SECONDS,
+  createLinkIntent,
+  getLinkIntent,
+  linkIntentCookie,
+  listIdentities,
+  unlinkIdentity
+} from '../helpers/identities';
+import type { SocialProviderName } from '../helpers/social-providers';
+import { isRedirectAllowed } from '../helpers/clients';
+import { recordAuditEvent } from '../helpers/audit';
+import type { RouteContext } from './context';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function linkPage(title: string, paragraphs: string[], form = '', status = 200): Response {
+  const html = `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #222; max-width: 380px; margin: 0 auto; padding: 48px 24px;">
+    <h2>${escapeHtml(title)}</h2>
+    ${paragraphs.map(paragraph => `<p>${paragraph}</p>`).join('\n    ')}
+    ${form}
+  </body>
+</html>`;
+  return new Response(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+const expiredLink = () => linkPage(
+  'Link expired',
+  ['This link has expired. Start linking again from your account settings.'],
+  '',
+  400
+);
+
+/**
+ * Ask the browser's user to confirm the account the provider will be linked
+ * to. The link URL alone is a bearer token, so someone who was sent another
+ * user's URL sees whose account it is before anything is attached to it.
+ */
+async function confirmLink(request: Request, context: RouteContext): Promise<Response> {
+  const token = new URL(request.url).searchParams.get('token') || '';
+  const intent = token ? await getLinkIntent(context.env.AUTH_STORAGE, token) : null;
+  if (!intent || intent.tenantId !== context.tenant.id) return expiredLink();
+
+  const user = await context.env.AUTH_DB.prepare(`SELECT email FROM user WHERE id = ?`)
+    .bind(intent.userId)
+    .first<{ email: string }>();
+  if (!user) return expiredLink();
+
+  return linkPage(
+    `Link ${intent.provider}`,
+    [
+      `Sign in with ${escapeHtml(intent.provider)} to add it as a way to sign in to <strong>${escapeHtml(user.email)}</strong>.`,
+      'If that is not your account, or you did not start this from your account settings, close this page.'
+    ],
+    `<form method="post">
+      <input type="hidden" name="token" value="${escapeHtml(token)}">
+      <button type="submit">Continue</button>
+    </form>`
+  );
+}
+
+/**
+ * Once confirmed, send the browser into the issuer's authorize flow for the
+ * intended provider, carrying the link intent in a cookie
+ */
+async function startLink(request: Request, context: RouteContext): Promise<Response> {
+  const url = new URL(request.url);
+  // Only the confirmation page may submit, not a form on another site
+  if (request.headers.get('Origin') !== url.origin) {
+    return linkPage('Link refused', ['Confirm linking from the page this link opens.'], '', 403);
+  }
+
+  const form = await request.formData().catch(() => null);
+  const token = form?.get('token')?.toString() || '';
+  const intent = token ? await getLinkIntent(context.env.AUTH_STORAGE, token) : null;
+  if (!intent || intent.tenantId !== context.tenant.id) return expiredLink();
+
+  const authorize = new URL('/authorize', url.origin);
+  authorize.searchParams.set('client_id', intent.clientId);
+  authorize.searchParams.set('redirect_uri', intent.redirectUri);
+  authorize.searchParams.set('response_type', 'code');
+  authorize.searchParams.set('provider', intent.provider);
+
+  return new Response(null, {
+    status: 302,
+    headers: {
+      'Location': authorize.toString(),
+      'Set-Cookie': linkIntentCookie(token, request.url)
+    }
+  });
+}
+
+export async function handleIdentities(request: Request, context: RouteContext): Promise<Response> {
+  const [, , identityId, action] = new URL(request.url).pathname.split('/');
+
+  // Navigated to by the browser, so it is not a CORS request
+  if (identityId === 'link' && action === 'start' && request.method === 'GET') {
+    return confirmLink(request, context);
+  }
+  if (identityId === 'link' && action === 'start' && request.method === 'POST') {
+    return startLink(request, context);
+  }
+
+  const corsResponse = handleCors(request, context.cors);
+  if (corsResponse) return corsResponse;
+
+  const auth = await context.authenticate(request);
+  if ('error' in auth) {
+    return addCorsHeaders(auth.error, request, context.cors);
+  }
+
+  const db = context.env.AUTH_DB;
+
+  if (!identityId) {
+    if (request.method !== 'GET') {
+      return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+    }
+    return addCorsHeaders(Response.json({ identities: await listIdentities(db, auth.userId) }), request, context.cors);
+  }
+
+  if (identityId === 'link' && !action) {
+    if (request.method !== 'POST') {
+      return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+    }
+
+    const body = await request.json<Record<string, unknown>>().catch(() => null);
+    const provider = body?.provider as SocialProviderName;
+    const clientId = typeof body?.client_id === 'string' ? body.client_id : '';
+    const redirectUri = typeof body?.redirect_uri === 'string' ? body.redirect_uri : '';
+    const origin = new URL(request.url).origin;
+
+    if (!provider || !context.config.providers[provider]) {
+      return addCorsHeaders(Response.json({ error: 'Unknown or disabled provider' }, { status: 400 }), request, context.cors);
+    }
+    if (!clientId || !redirectUri || !(await isRedirectAllowed(db, context.tenant.id, clientId, redirectUri, origin, context.config.demoRoutes))) {
+      return addCorsHeaders(Response.json({ error: 'Invalid client_id or redirect_uri' }, { status: 400 }), request, context.cors);
+    }
+
+    const token = await createLinkIntent(context.env.AUTH_STORAGE, {
+      tenantId: context.tenant.id,
+      userId: auth.userId,
+      provider,
+      clientId,
+      redirectUri
+    });
+    return addCorsHeaders(Response.json({
+      link_url: `${origin}/identities/link/start?token=${token}`,
+      expires_in: LINK_INTENT_TTL_SECONDS
+    }), request, context.cors);
+  }
+
+  if (request.method !== 'DELETE' || action) {
+    return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+  }
+
+  const result = await unlinkIdentity(db, context.storage, auth.userId, identityId);
+  if (!result) {
+    return addCorsHeaders(Response.json({ error: 'Identity not found' }, { status: 404 }), request, context.cors);
+  }
+  if ('error' in result) {
+    return addCorsHeaders(
+      Response.json({ error: result.error.message, code: result.error.code }, { status: 409 }),
+      request,
+      context.cors
+    );
+  }
+  await recordAuditEvent(db, request, {
+    tenantId: context.tenant.id,
+    event: 'identity_unlink',
+    actorId: auth.userId,
+    targetId: auth.userId,
+    details: { provider: result.identity.provider }
+  });
+
+  return addCorsHeaders(new Response(null, { status: 204 }), request, context.cors);
+}
@@ -0,0 +1,124 @@
+/**
+ * /mfa routes
+ * Manage the caller's authenticator and recovery codes
+ *
+ *   GET    /mfa                 MFA status and whether the caller's role requires it
+ *   POST   /mfa/totp            start enrolling an authenticator ({ secret, otpauth_uri })
+ *   POST   /mfa/totp/confirm    confirm it with a code ({ code }); returns recovery codes
+ *   DELETE /mfa/totp            remove it ({ code }); refused when the role requires MFA
+ *   POST   /mfa/recovery-codes  replace the recovery codes ({ code })
+ *
+ * /mfa/authorize is the sign-in challenge page, served by the issuer.
+ */
+
+import { handleCors, addCorsHeaders } from '../middleware/auth';
+import {
+  confirmTotpEnrollment,
+  disableMfa,
+  getMfaStatus,
+  isMfaRequired,
+  otpauthUri,
+  regenerateRecoveryCodes,
+  startTotpEnrollment,
+  verifyMfaCode
+} from '../helpers/mfa';
+import { loadRbacPolicy } from '../helpers/rbac';
+import { recordAuditEvent } from '../helpers/audit';
+import type { RouteContext } from './context';
+
+/**
+ * Read the `code` field of a JSON body
+ */
+async function readCode(request: Request): Promise<string> {
+  const body: unknown = await request.json().catch(() => null);
+  if (typeof body !== 'object' || !body || !('code' in body)) return '';
+  return typeof body.code === 'string' ? body.code.trim() : '';
+}
+
+export async function handleMfa(request: Request, context: RouteContext): Promise<Response> {
+  const url = new URL(request.url);
+  if (url.pathname === '/mfa/authorize') {
+    return context.forward(request);
+  }
+
+  const corsResponse = handleCors(request, context.cors);
+  if (corsResponse) return corsResponse;
+
+  const auth = await context.authenticate(request);
+  if ('error' in auth) {
+    return addCorsHeaders(auth.error, request, context.cors);
+  }
+
+  const db = context.env.AUTH_DB;
+  const [, , resource, action] = url.pathname.split('/');
+  const respond = (response: Response) => addCorsHeaders(response, request, context.cors);
+  const invalidCode = () => respond(Response.json({ error: 'Invalid code' }, { status: 400 }));
+
+  const user = await db.prepare(`SELECT email, role FROM user WHERE id = ?`)
+    .bind(auth.userId)
+    .first<{ email: string; role: string | null }>();
+  const required = isMfaRequired(await loadRbacPolicy(db), user?.role || 'customer', context.config.mfa.requiredRoles);
+
+  if (!resource && request.method === 'GET') {
+    return respond(Response.json({ ...(await getMfaStatus(db, auth.userId)), required }));
+  }
+
+  if (resource === 'totp' && !action && request.method === 'POST') {
+    const secret = await startTotpEnrollment(db, auth.userId);
+    if (!secret) {
+      return respond(Response.json({ error: 'An authenticator is already set up' }, { status: 409 }));
+    }
+    return respond(Response.json({
+      secret,
+      otpauth_uri: otpauthUri(secret, user?.email ?? auth.userId, context.config.appName)
+    }));
+  }
+
+  if (resource === 'totp' && action === 'confirm' && request.method === 'POST') {
+    const recoveryCodes = await confirmTotpEnrollment(db, auth.userId, await readCode(request));
+    if (!recoveryCodes) return invalidCode();
+
+    await recordAuditEvent(db, request, {
+      tenantId: context.tenant.id,
+      event: 'mfa_enroll',
+      actorId: auth.userId,
+      targetId: auth.userId
+    });
+    return respond(Response.json({ recovery_codes: recoveryCodes }));
+  }
+
+  if (resource === 'totp' && !action && request.method === 'DELETE') {
+    if (required) {
+      return respond(Response.json({ error: 'Your role requires two-step verification' }, { status: 403 }));
+    }
+    if (!(await verifyMfaCode(db, auth.userId, await readCode(request)))) {
+      return invalidCode();
+    }
+
+    await disableMfa(db, auth.userId);
+    await recordAuditEvent(db, request, {
+      tenantId: context.tenant.id,
+      event: 'mfa_disable',
+      actorId: auth.userId,
+      targetId: auth.userId
+    });
+    return respond(new Response(null, { status: 204 }));
+  }
+
+  if (resource === 'recovery-codes' && !action && request.method === 'POST') {
+    if (!(await verifyMfaCode(db, auth.userId, await readCode(request)))) {
+      return invalidCode();
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(db, auth.userId);
+    await recordAuditEvent(db, request, {
+      tenantId: context.tenant.id,
+      event: 'mfa_recovery_codes',
+      actorId: auth.userId,
+      targetId: auth.userId
+    });
+    return respond(Response.json({ recovery_codes: recoveryCodes }));
+  }
+
+  return respond(new Response('Method not allowed', { status: 405 }));
+}
@@ -0,0 +1,67 @@
+/**
+ * /sessions routes
+ * List and revoke the caller's active sessions
+ *
+ *   GET    /sessions      list active sessions
+ *   DELETE /sessions      revoke every session (signs out everywhere)
+ *   DELETE /sessions/:id  revoke a single session
+ */
+
+import { handleCors, addCorsHeaders } from '../middleware/auth';
+import { getSessionId, listActiveSessions, revokeSession, revokeAllSessions } from '../helpers/sessions';
+import { recordAuditEvent } from '../helpers/audit';
+import type { RouteContext } from './context';
+
+export async function handleSessions(request: Request, context: RouteContext): Promise<Response> {
+  const corsResponse = handleCors(request, context.cors);
+  if (corsResponse) return corsResponse;
+
+  const auth = await context.authenticate(request);
+  if ('error' in auth) {
+    return addCorsHeaders(auth.error, request, context.cors);
+  }
+
+  const db = context.env.AUTH_DB;
+  const sessionId = new URL(request.url).pathname.split('/')[2];
+
+  if (request.method === 'GET' && !sessionId) {
+    const currentId = auth.sessionToken ? await getSessionId(db, auth.sessionToken) : null;
+    const sessions = await listActiveSessions(db, auth.userId);
+
+    return addCorsHeaders(Response.json({
+      sessions: sessions.map(session => ({
+        ...session,
+        current: session.id === currentId
+      }))
+    }), request, context.cors);
+  }
+
+  if (request.method === 'DELETE' && sessionId) {
+    const revoked = await revokeSession(db, auth.userId, sessionId);
+    if (!revoked) {
+      return addCorsHeaders(Response.json({ error: 'Session not found' }, { status: 404 }), request, context.cors);
+    }
+    await recordAuditEvent(db, request, {
+      tenantId: context.tenant.id,
+      event: 'session_revoke',
+      actorId: auth.userId,
+      targetId: auth.userId,
+      details: { session_id: sessionId }
+    });
+    return addCorsHeaders(Response.json({ revoked: 1 }), request, context.cors);
+  }
+
+  if (request.method === 'DELETE') {
+    const revoked = await revokeAllSessions(db, auth.userId);
+    await recordAuditEvent(db, request, {
+      tenantId: context.tenant.id,
+      event: 'session_revoke',
+      actorId: auth.userId,
+      targetId: auth.userId,
+      details: { all: true, revoked }
+    });
+    return addCorsHeaders(Response.json({ revoked }), request, context.cors);
+  }
+
+  return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+}
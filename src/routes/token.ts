@@ -0,0 +1,149 @@
+/**
+ * /token route
+ * Wraps the issuer's token endpoint so registered clients are authenticated,
+ * refreshes extend the caller's session and refreshes for revoked sessions
+ * or blocked accounts are refused
+ */
+
+import { Storage, type StorageAdapter } from '@openauthjs/openauth/storage/storage';
+import { parseJWT } from '../helpers/token-validation';
+import { refreshSession } from '../helpers/sessions';
+import { checkAccountStatus } from '../helpers/account-status';
+import { authenticateClient } from '../helpers/clients';
+import { addCorsHeaders, handleCors } from '../middleware/auth';
+import type { RouteContext } from './context';
+
+/**
+ * OAuth error response in the shape the issuer's token endpoint uses, with an
+ * optional machine-readable code for the client SDK
+ */
+function tokenError(error: string, description: string, status: number = 400, code?: string): Response {
+  return Response.json({
+    error,
+    error_description: description,
+    ...(code && { code })
+  }, { status });
+}
+
+/**
+ * Read client credentials from the form and an HTTP Basic Authorization
+ * header. The issuer itself only reads `client_id` from the form, so a Basic
+ * header must name the same client; the id returned is the one the issuer
+ * will act on.
+ */
+function getClientCredentials(
+  request: Request,
+  form: FormData
+): { clientId: string; clientSecret: string | null } | { error: Response } {
+  const formId = form.get('client_id')?.toString() || null;
+  let clientId = formId;
+  let clientSecret = form.get('client_secret')?.toString() || null;
+
+  const header = request.headers.get('Authorization');
+  if (header?.startsWith('Basic ')) {
+    let basicId: string;
+    try {
+      const [id, secret] = atob(header.slice(6)).split(':');
+      basicId = decodeURIComponent(id);
+      clientSecret = decodeURIComponent(secret || '') || null;
+    } catch (error) {
+      return { error: tokenError('invalid_client', 'Malformed Basic authorization header', 401) };
+    }
+    if (formId && formId !== basicId) {
+      return { error: tokenError('invalid_request', 'client_id does not match the authenticated client') };
+    }
+    clientId = basicId;
+  }
+
+  if (!clientId) {
+    return { error: tokenError('invalid_request', 'Missing client_id') };
+  }
+  return { clientId, clientSecret };
+}
+
+/**
+ * Client a refresh token was issued to, read from the issuer's storage
+ */
+async function refreshTokenClient(storage: StorageAdapter, refreshToken: string): Promise<string | null> {
+  const splits = refreshToken.split(':');
+  const token = splits.pop();
+  const payload = await Storage.get<{ clientID?: string }>(storage, ['oauth:refresh', splits.join(':'), token!]);
+  return payload?.clientID ?? null;
+}
+
+export async function handleToken(request: Request, context: RouteContext): Promise<Response> {
+  const corsResponse = handleCors(request, context.cors);
+  if (corsResponse) return corsResponse;
+
+  const response = await exchangeToken(request, context);
+  // The issuer allows every origin on /token; answer with the API's policy
+  // for its responses and ours alike
+  const headers = new Headers(response.headers);
+  for (const name of [...headers.keys()]) {
+    if (name.startsWith('access-control-')) headers.delete(name);
+  }
+  return addCorsHeaders(new Response(response.body, { status: response.status, headers }), request, context.cors);
+}
+
+async function exchangeToken(request: Request, context: RouteContext): Promise<Response> {
+  let form: FormData;
+  try {
+    form = await request.clone().formData();
+  } catch (error) {
+    return tokenError('invalid_request', 'Expected an application/x-www-form-urlencoded body');
+  }
+
+  const grantType = form.get('grant_type')?.toString() || '';
+  const credentials = getClientCredentials(request, form);
+  if ('error' in credentials) return credentials.error;
+  const { clientId, clientSecret } = credentials;
+
+  const clientError = await authenticateClient(
+    context.env.AUTH_DB,
+    context.tenant.id,
+    clientId,
+    grantType,
+    clientSecret,
+    context.config.demoRoutes
+  );
+  if (clientError === 'invalid_client') {
+    return tokenError('invalid_client', 'Client authentication failed', 401);
+  }
+  if (clientError === 'unauthorized_client') {
+    return tokenError('unauthorized_client', `Client is not allowed to use grant type ${grantType}`);
+  }
+
+  // The issuer refreshes for whichever client the token was issued to, so
+  // the authenticated client must be that one
+  const refreshToken = form.get('refresh_token')?.toString();
+  if (grantType === 'refresh_token' && refreshToken) {
+    const issuedTo = await refreshTokenClient(context.storage, refreshToken);
+    if (issuedTo && issuedTo !== clientId) {
+      return tokenError('invalid_grant', 'Refresh token was issued to another client');
+    }
+  }
+
+  const response = await context.forward(request);
+
+  if (grantType !== 'refresh_token' || !response.ok) {
+    return response;
+  }
+
+  const tokens = await response.json<{ access_token: string }>();
+  const claims = parseJWT(tokens.access_token)?.properties;
+  const sessionToken = claims?.sid;
+
+  // Blocked accounts cannot refresh even before their sessions are revoked
+  if (claims?.id) {
+    const blocked = await checkAccountStatus(context.env.AUTH_DB, claims.id);
+    if (blocked) {
+      return tokenError('invalid_grant', blocked.message, 400, blocked.code);
+    }
+  }
+
+  if (sessionToken && !(await refreshSession(context.env.AUTH_DB, sessionToken, request))) {
+    return tokenError('invalid_grant', 'Session has been revoked or expired', 400, 'SESSION_REVOKED');
+  }
+
+  return new Response(JSON.stringify(tokens), response);
+}
@@ -0,0 +1,39 @@
+/**
+ * /userinfo route
+ * Returns the caller's profile from the D1 user table
+ */
+
+import { handleCors, addCorsHeaders } from '../middleware/auth';
+import { sanitizeUserData } from '../helpers/token-validation';
+import { InvalidTokenError } from '../helpers/auth-errors';
+import type { User } from '../client-sdk';
+import type { RouteContext } from './context';
+
+export async function handleUserInfo(request: Request, context: RouteContext): Promise<Response> {
+  const corsResponse = handleCors(request, context.cors);
+  if (corsResponse) return corsResponse;
+
+  if (request.method !== 'GET') {
+    return addCorsHeaders(new Response('Method not allowed', { status: 405 }), request, context.cors);
+  }
+
+  const auth = await context.authenticate(request);
+  if ('error' in auth) {
+    return addCorsHeaders(auth.error, request, context.cors);
+  }
+
+  const user = await context.env.AUTH_DB.prepare(
+    `SELECT id, email, first_name, last_name, avatar_url, role FROM user WHERE id = ?`
+  )
+    .bind(auth.userId)
+    .first<User>();
+  if (!user) {
+    return addCorsHeaders(
+      new InvalidTokenError('User no longer exists', 'USER_NOT_FOUND').toResponse(),
+      request,
+      context.cors
+    );
+  }
+
+  return addCorsHeaders(Response.json(sanitizeUserData(user)), request, context.cors);
+}
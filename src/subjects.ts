@@ -0,0 +1,108 @@
+/**
+ * Token Subjects
+ * The subject schema shared by the issuer and the resource workers that
+ * verify its tokens, so both validate the same claims
+ */
+
+import { createSubjects } from '@openauthjs/openauth/subject';
+import { array, boolean, literal, object, optional, picklist, string, union, type InferOutput } from 'valibot';
+import { ACCOUNT_STATUSES } from './helpers/account-status';
+import { DEFAULT_TENANT_ID } from './helpers/tenants';
+
+// Version of the user subject the issuer currently signs
+export const SUBJECT_VERSION = 4;
+
+// Every version this code can read. Deploy resource workers that accept a new
+// version before the issuer starts signing it.
+export const SUPPORTED_SUBJECT_VERSIONS: readonly number[] = [1, 2, 3, 4];
+
+/**
+ * Version 1: the user ID and session only. These tokens have no `v` claim.
+ */
+const UserSubjectV1 = object({
+  id: string(),
+  // Session token from user_sessions; absent on tokens issued before
+  // session tracking was added
+  sid: optional(string())
+});
+
+/**
+ * Version 2: adds the profile fields resource workers would otherwise look up
+ */
+const UserSubjectV2 = object({
+  v: literal(2),
+  id: string(),
+  sid: optional(string()),
+  email: string(),
+  role: string(),
+  name: string(), // Display name
+  status: picklist(ACCOUNT_STATUSES) // As of sign-in; see checkAccountStatus for the live value
+});
+
+/**
+ * Version 3: adds the tenant the user belongs to
+ */
+const UserSubjectV3 = object({
+  ...UserSubjectV2.entries,
+  v: literal(3),
+  tenant: string()
+});
+
+/**
+ * Version 4: adds how the user signed in, so routes can require a second factor
+ */
+const UserSubjectV4 = object({
+  ...UserSubjectV3.entries,
+  v: literal(4),
+  amr: array(string()), // Authentication method references (RFC 8176), e.g. ['pwd', 'otp', 'mfa']
+  mfa: boolean() // Signed in with a second factor
+});
+
+// Newest first, so a newer token is never read as an older version
+export const UserSubjectSchema = union([UserSubjectV4, UserSubjectV3, UserSubjectV2, UserSubjectV1]);
+
+export type UserSubject = InferOutput<typeof UserSubjectSchema>;
+export type CurrentUserSubject = InferOutput<typeof UserSubjectV4>;
+
+export const subjects = createSubjects({
+  user: UserSubjectSchema
+});
+
+/**
+ * Schema version of a user subject's properties
+ */
+export function subjectVersion(properties: { v?: unknown } | null | undefined): number {
+  return typeof properties?.v === 'number' ? properties.v : 1;
+}
+
+/**
+ * Tenant a user subject belongs to. Subjects from before tenants existed
+ * belong to the default tenant.
+ */
+export function subjectTenant(properties: object | null | undefined): string {
+  const tenant = (properties as { tenant?: unknown } | null | undefined)?.tenant;
+  return typeof tenant === 'string' ? tenant : DEFAULT_TENANT_ID;
+}
+
+/**
+ * Whether a user subject signed in with a second factor. Subjects from before
+ * MFA existed never did.
+ */
+export function subjectMfa(properties: object | null | undefined): boolean {
+  return (properties as { mfa?: unknown } | null | undefined)?.mfa === true;
+}
+
+/**
+ * Name to show for a user: their full name, else their email
+ */
+export function displayName(user: { email: string; first_name?: string | null; last_name?: string | null }): string {
+  const name = [user.first_name, user.last_name].filter(Boolean).join(' ');
+  return name || user.email;
+}
+
+/**
+ * Build the properties of a current-version user subject
+ */
+export function createUserSubject(properties: Omit<CurrentUserSubject, 'v'>): CurrentUserSubject {
+  return { v: SUBJECT_VERSION as 4, ...properties };
+}
@@ -0,0 +1,4 @@
+import { applyD1Migrations, env } from 'cloudflare:test';
+
+// Setup files run before every test file; applied migrations are skipped
+await applyD1Migrations(env.AUTH_DB, env.TEST_MIGRATIONS);
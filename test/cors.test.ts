@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { createCorsPolicy } from '../src/middleware/auth';
+
+const request = (origin: string | null, path = '/api/items', method = 'GET') =>
+  new Request(`https://api.example.com${path}`, {
+    method,
+    headers: origin ? { Origin: origin } : {}
+  });
+
+describe('origin matching', () => {
+  const policy = createCorsPolicy({
+    origins: ['https://shop.example.com/', 'https://*.brand.example', /^https:\/\/preview-\d+\.example\.dev$/]
+  });
+
+  it('matches exact origins case-insensitively, ignoring a trailing slash', () => {
+    expect(policy.isOriginAllowed('https://shop.example.com')).toBe(true);
+    expect(policy.isOriginAllowed('HTTPS://SHOP.EXAMPLE.COM')).toBe(true);
+    expect(policy.isOriginAllowed('http://shop.example.com')).toBe(false);
+    expect(policy.isOriginAllowed('https://shop.example.com.evil.test')).toBe(false);
+  });
+
+  it('matches subdomains for a wildcard entry but not the bare domain', () => {
+    expect(policy.isOriginAllowed('https://eu.brand.example')).toBe(true);
+    expect(policy.isOriginAllowed('https://a.b.brand.example')).toBe(true);
+    expect(policy.isOriginAllowed('https://brand.example')).toBe(false);
+    expect(policy.isOriginAllowed('https://evilbrand.example')).toBe(false);
+    expect(policy.isOriginAllowed('http://eu.brand.example')).toBe(false);
+    expect(policy.isOriginAllowed('https://evil.test/.brand.example')).toBe(false);
+  });
+
+  it('matches regular expressions', () => {
+    expect(policy.isOriginAllowed('https://preview-42.example.dev')).toBe(true);
+    expect(policy.isOriginAllowed('https://preview-x.example.dev')).toBe(false);
+  });
+});
+
+describe('response headers', () => {
+  it('echoes allowed origins with Vary and omits the header for others', () => {
+    const policy = createCorsPolicy({ origins: ['https://shop.example.com'] });
+
+    expect(policy.headers(request('https://shop.example.com'))).toMatchObject({
+      'Access-Control-Allow-Origin': 'https://shop.example.com',
+      'Vary': 'Origin'
+    });
+    expect(policy.headers(request('https://evil.test'))).toEqual({ 'Vary': 'Origin' });
+    expect(policy.headers(request(null))).toEqual({ 'Vary': 'Origin' });
+  });
+
+  it('answers a wildcard policy without credentials with *', () => {
+    const policy = createCorsPolicy();
+    expect(policy.headers(request('https://anything.test'))['Access-Control-Allow-Origin']).toBe('*');
+  });
+
+  it('refuses to combine credentials with a wildcard origin', () => {
+    expect(() => createCorsPolicy({ origins: ['*'], credentials: true })).toThrow();
+  });
+
+  it('applies the longest matching route override', () => {
+    const policy = createCorsPolicy({
+      origins: ['https://shop.example.com'],
+      routes: { '/admin/': { origins: ['https://admin.example.com'] } }
+    });
+
+    expect(policy.isOriginAllowed('https://admin.example.com', '/admin/users')).toBe(true);
+    expect(policy.isOriginAllowed('https://shop.example.com', '/admin/users')).toBe(false);
+    expect(policy.isOriginAllowed('https://shop.example.com', '/api/items')).toBe(true);
+  });
+
+  it('adds Origin to an existing Vary header once', () => {
+    const policy = createCorsPolicy({ origins: ['https://shop.example.com'] });
+    const response = policy.apply(
+      new Response('ok', { headers: { 'Vary': 'Accept-Encoding' } }),
+      request('https://shop.example.com')
+    );
+    expect(response.headers.get('Vary')).toBe('Accept-Encoding, Origin');
+    expect(policy.apply(response, request('https://shop.example.com')).headers.get('Vary')).toBe('Accept-Encoding, Origin');
+  });
+});
+
+describe('preflight', () => {
+  const policy = createCorsPolicy({ origins: ['https://shop.example.com'], maxAge: 600 });
+
+  it('only handles OPTIONS requests', () => {
+    expect(policy.preflight(request('https://shop.example.com'))).toBeNull();
+  });
+
+  it('describes allowed methods and headers to allowed origins', () => {
+    const response = policy.preflight(request('https://shop.example.com', '/api/items', 'OPTIONS'))!;
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://shop.example.com');
+    expect(response.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type, Authorization');
+    expect(response.headers.get('Access-Control-Max-Age')).toBe('600');
+  });
+
+  it('grants nothing to other origins', () => {
+    const response = policy.preflight(request('https://evil.test', '/api/items', 'OPTIONS'))!;
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    expect(response.headers.get('Access-Control-Allow-Methods')).toBeNull();
+  });
+});
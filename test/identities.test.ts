@@ -0,0 +1,67 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { passwordIdentity, resolveLoginUser, type LoginIdentity } from '../src/helpers/identities';
+import { DEFAULT_TENANT_ID } from '../src/helpers/tenants';
+
+const EMAIL = 'victim@example.com';
+
+function socialLogin(provider: LoginIdentity['provider'], subject: string, emailVerified: boolean | null): LoginIdentity {
+  return {
+    provider,
+    subject,
+    email: EMAIL,
+    email_verified: emailVerified,
+    first_name: null,
+    last_name: null,
+    avatar_url: null
+  };
+}
+
+const resolve = (login: LoginIdentity) => resolveLoginUser(env.AUTH_DB, DEFAULT_TENANT_ID, login);
+
+beforeEach(async () => {
+  await env.AUTH_DB.batch([
+    env.AUTH_DB.prepare(`DELETE FROM user_identities WHERE email = ?`).bind(EMAIL),
+    env.AUTH_DB.prepare(`DELETE FROM user WHERE email = ?`).bind(EMAIL)
+  ]);
+});
+
+describe('resolveLoginUser', () => {
+  it('creates an account for a verified email and signs the identity in after', async () => {
+    const created = await resolve(socialLogin('google', 'g-1', true));
+    expect(created).toMatchObject({ created: true });
+
+    const again = await resolve(socialLogin('google', 'g-1', true));
+    expect(again).toEqual({ userId: (created as { userId: string }).userId });
+  });
+
+  it('does not create accounts from unverified or unconfirmed emails', async () => {
+    expect(await resolve(socialLogin('github', 'gh-1', false))).toMatchObject({ error: { code: 'EMAIL_UNVERIFIED' } });
+    expect(await resolve(socialLogin('microsoft', 'ms-1', null))).toMatchObject({ error: { code: 'EMAIL_UNVERIFIED' } });
+
+    const users = await env.AUTH_DB.prepare(`SELECT COUNT(*) AS count FROM user WHERE email = ?`)
+      .bind(EMAIL)
+      .first<{ count: number }>();
+    expect(users?.count).toBe(0);
+  });
+
+  it('links a verified login to an account with a verified email', async () => {
+    const created = await resolve(passwordIdentity(EMAIL));
+    const linked = await resolve(socialLogin('google', 'g-2', true));
+    expect(linked).toEqual({ userId: (created as { userId: string }).userId });
+  });
+
+  it('does not link into an account none of whose identities verified the email', async () => {
+    // An account left over from before sign-ups required a verified email
+    await env.AUTH_DB.batch([
+      env.AUTH_DB.prepare(`INSERT INTO user (id, email) VALUES ('squatter', ?)`).bind(EMAIL),
+      env.AUTH_DB.prepare(
+        `INSERT INTO user_identities (user_id, provider, provider_subject, email, email_verified)
+         VALUES ('squatter', 'microsoft', 'ms-attacker', ?, 0)`
+      ).bind(EMAIL)
+    ]);
+
+    expect(await resolve(passwordIdentity(EMAIL))).toMatchObject({ error: { code: 'ACCOUNT_EXISTS' } });
+    expect(await resolve(socialLogin('google', 'g-3', true))).toMatchObject({ error: { code: 'ACCOUNT_EXISTS' } });
+  });
+});
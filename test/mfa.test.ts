@@ -0,0 +1,127 @@
+import { env } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  RECOVERY_CODE_COUNT,
+  TOTP_PERIOD_SECONDS,
+  confirmTotpEnrollment,
+  getMfaStatus,
+  startTotpEnrollment,
+  verifyMfaCode,
+  verifyTotpCode
+} from '../src/helpers/mfa';
+
+// RFC 6238 appendix B: the SHA-1 seed "12345678901234567890", base32 encoded.
+// The RFC lists 8-digit codes; 6-digit codes are their last six digits.
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_VECTORS: [number, string][] = [
+  [59, '94287082'],
+  [1111111109, '07081804'],
+  [1111111111, '14050471'],
+  [1234567890, '89005924'],
+  [2000000000, '69279037'],
+  [20000000000, '65353130']
+];
+
+describe('verifyTotpCode', () => {
+  it.each(RFC_VECTORS)('accepts the RFC 6238 code at T=%i', async (seconds, code) => {
+    const step = await verifyTotpCode(RFC_SECRET, code.slice(-6), seconds * 1000);
+    expect(step).toBe(Math.floor(seconds / TOTP_PERIOD_SECONDS));
+  });
+
+  it('accepts a code one step either side of now and no further', async () => {
+    const now = 1111111111 * 1000;
+    const period = TOTP_PERIOD_SECONDS * 1000;
+    expect(await verifyTotpCode(RFC_SECRET, '050471', now + period)).not.toBeNull();
+    expect(await verifyTotpCode(RFC_SECRET, '050471', now - period)).not.toBeNull();
+    expect(await verifyTotpCode(RFC_SECRET, '050471', now + 2 * period)).toBeNull();
+  });
+
+  it('rejects wrong and malformed codes', async () => {
+    const now = 59 * 1000;
+    expect(await verifyTotpCode(RFC_SECRET, '287083', now)).toBeNull();
+    expect(await verifyTotpCode(RFC_SECRET, '28708', now)).toBeNull();
+    expect(await verifyTotpCode(RFC_SECRET, '94287082', now)).toBeNull();
+  });
+});
+
+describe('TOTP enrollment and recovery codes', () => {
+  const userId = 'mfa-user';
+
+  beforeEach(async () => {
+    await env.AUTH_DB.batch([
+      env.AUTH_DB.prepare(`DELETE FROM user WHERE id IN (?, 'mfa-other')`).bind(userId),
+      env.AUTH_DB.prepare(`INSERT INTO user (id, email) VALUES (?, ?)`).bind(userId, 'mfa@example.com')
+    ]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Enroll the user with the RFC secret at T=59 and return their recovery codes
+   */
+  async function enroll(): Promise<string[]> {
+    await startTotpEnrollment(env.AUTH_DB, userId);
+    await env.AUTH_DB.prepare(`UPDATE user_mfa SET totp_secret = ? WHERE user_id = ?`)
+      .bind(RFC_SECRET, userId)
+      .run();
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(59 * 1000);
+    const codes = await confirmTotpEnrollment(env.AUTH_DB, userId, '287 082');
+    expect(codes).not.toBeNull();
+    return codes!;
+  }
+
+  it('refuses to confirm a pending authenticator with a wrong code', async () => {
+    const secret = await startTotpEnrollment(env.AUTH_DB, userId);
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(await confirmTotpEnrollment(env.AUTH_DB, userId, '000000')).toBeNull();
+    expect(await getMfaStatus(env.AUTH_DB, userId)).toMatchObject({ enrolled: false, pending: true });
+  });
+
+  it('does not accept the confirming code again', async () => {
+    await enroll();
+    expect(await getMfaStatus(env.AUTH_DB, userId)).toMatchObject({ enrolled: true, pending: false });
+    expect(await verifyMfaCode(env.AUTH_DB, userId, '287082')).toBeNull();
+
+    vi.setSystemTime(1111111111 * 1000);
+    expect(await verifyMfaCode(env.AUTH_DB, userId, '050471')).toBe('totp');
+    expect(await verifyMfaCode(env.AUTH_DB, userId, '050471')).toBeNull();
+  });
+
+  it('stores only hashes of the recovery codes', async () => {
+    const codes = await enroll();
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+
+    const { results } = await env.AUTH_DB.prepare(`SELECT code_hash FROM user_recovery_codes WHERE user_id = ?`)
+      .bind(userId)
+      .all<{ code_hash: string }>();
+    expect(results).toHaveLength(RECOVERY_CODE_COUNT);
+    for (const { code_hash } of results) {
+      expect(code_hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(codes).not.toContain(code_hash);
+    }
+  });
+
+  it('spends a recovery code once, ignoring case and separators', async () => {
+    const [code] = await enroll();
+    const typed = ` ${code.toUpperCase().replace('-', ' ')} `;
+
+    expect(await verifyMfaCode(env.AUTH_DB, userId, typed)).toBe('recovery_code');
+    expect(await verifyMfaCode(env.AUTH_DB, userId, code)).toBeNull();
+    expect(await getMfaStatus(env.AUTH_DB, userId)).toMatchObject({
+      enrolled: true,
+      recovery_codes_remaining: RECOVERY_CODE_COUNT - 1
+    });
+  });
+
+  it("rejects unknown recovery codes and other users' codes", async () => {
+    const [code] = await enroll();
+    await env.AUTH_DB.prepare(`INSERT INTO user (id, email) VALUES ('mfa-other', 'other@example.com')`).run();
+
+    expect(await verifyMfaCode(env.AUTH_DB, userId, 'aaaaa-bbbbb')).toBeNull();
+    expect(await verifyMfaCode(env.AUTH_DB, 'mfa-other', code)).toBeNull();
+  });
+});
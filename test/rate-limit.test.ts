@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter, applyRateLimit, createCorsPolicy } from '../src/middleware/auth';
+
+const WINDOW_MS = 60_000;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  // Start of a fixed window, so overlap arithmetic is exact
+  vi.setSystemTime(WINDOW_MS * 1000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('sliding window', () => {
+  it('allows the limit within a window and refuses the next request', async () => {
+    const limiter = new RateLimiter(3, WINDOW_MS);
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await limiter.consume('client'));
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map(result => result.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3].resetMs).toBe(WINDOW_MS);
+  });
+
+  it('keeps identifiers apart', async () => {
+    const limiter = new RateLimiter(1, WINDOW_MS);
+    expect((await limiter.consume('a')).allowed).toBe(true);
+    expect((await limiter.consume('b')).allowed).toBe(true);
+    expect((await limiter.consume('a')).allowed).toBe(false);
+  });
+
+  it('weights the previous window by how much of it still overlaps', async () => {
+    const limiter = new RateLimiter(4, WINDOW_MS);
+    for (let i = 0; i < 4; i++) await limiter.consume('client');
+
+    // Half way into the next window half of the previous 4 still count
+    vi.setSystemTime(WINDOW_MS * 1000 + WINDOW_MS * 1.5);
+    expect(await limiter.consume('client')).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await limiter.consume('client')).toMatchObject({ allowed: true, remaining: 0 });
+    expect((await limiter.consume('client')).allowed).toBe(false);
+  });
+
+  it('forgets requests older than two windows', async () => {
+    const limiter = new RateLimiter(2, WINDOW_MS);
+    await limiter.consume('client');
+    await limiter.consume('client');
+
+    vi.setSystemTime(WINDOW_MS * 1000 + 2 * WINDOW_MS);
+    expect(await limiter.consume('client')).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('peeks without counting a request', async () => {
+    const limiter = new RateLimiter(1, WINDOW_MS);
+    expect((await limiter.peek('client')).allowed).toBe(true);
+    expect((await limiter.peek('client')).allowed).toBe(true);
+    expect((await limiter.consume('client')).allowed).toBe(true);
+    expect(await limiter.getRemainingTime('client')).toBe(WINDOW_MS);
+  });
+});
+
+describe('token bucket', () => {
+  it('allows a burst of the limit, then refills evenly', async () => {
+    const limiter = new RateLimiter(4, WINDOW_MS, { algorithm: 'token-bucket' });
+    for (let i = 0; i < 4; i++) {
+      expect((await limiter.consume('client')).allowed).toBe(true);
+    }
+    const refused = await limiter.consume('client');
+    expect(refused).toMatchObject({ allowed: false, remaining: 0, resetMs: WINDOW_MS / 4 });
+
+    // One token comes back every quarter window
+    vi.setSystemTime(WINDOW_MS * 1000 + WINDOW_MS / 4);
+    expect((await limiter.consume('client')).allowed).toBe(true);
+    expect((await limiter.consume('client')).allowed).toBe(false);
+  });
+
+  it('never holds more than the limit', async () => {
+    const limiter = new RateLimiter(2, WINDOW_MS, { algorithm: 'token-bucket' });
+    await limiter.consume('client');
+
+    vi.setSystemTime(WINDOW_MS * 1000 + 10 * WINDOW_MS);
+    expect(await limiter.consume('client')).toMatchObject({ allowed: true, remaining: 1 });
+  });
+});
+
+describe('applyRateLimit', () => {
+  const request = (origin?: string) => new Request('https://api.example.com/items', {
+    headers: { 'CF-Connecting-IP': '203.0.113.9', ...(origin && { Origin: origin }) }
+  });
+
+  it('returns the result for allowed requests and a 429 once refused', async () => {
+    const limiter = new RateLimiter(1, WINDOW_MS);
+    const cors = createCorsPolicy({ origins: ['https://shop.example.com'] });
+
+    const allowed = await applyRateLimit(request(), limiter, undefined, cors);
+    expect(allowed.response).toBeNull();
+    expect(allowed.result).toMatchObject({ allowed: true, limit: 1, remaining: 0 });
+
+    const refused = await applyRateLimit(request('https://shop.example.com'), limiter, undefined, cors);
+    expect(refused.response?.status).toBe(429);
+    expect(refused.response?.headers.get('Retry-After')).toBe('60');
+    expect(refused.response?.headers.get('RateLimit-Remaining')).toBe('0');
+    expect(refused.response?.headers.get('Access-Control-Allow-Origin')).toBe('https://shop.example.com');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { createRouter } from '../src/middleware/router';
+import { RateLimiter } from '../src/middleware/auth';
+
+const auth = { authServerUrl: 'https://auth.example.com', audience: 'web-app' };
+
+function testRouter() {
+  return createRouter({ auth, defaultAuth: 'public' })
+    .get('/api/products', 'public', () => Response.json({ route: 'list' }))
+    .get('/api/products/:id', 'public', (_request, { params }) => Response.json({ route: 'one', params }))
+    .post('/api/products/:id/reviews/:reviewId', 'public', (_request, { params }) => Response.json({ params }))
+    .get('/api/files/*', 'public', (_request, { params }) => Response.json({ params }))
+    .get('/api/me', 'authenticated', () => Response.json({ route: 'me' }))
+    .get('/api/broken', 'public', () => {
+      throw new Error('boom');
+    });
+}
+
+async function call(path: string, method = 'GET') {
+  const response = await testRouter().fetch(new Request(`https://api.example.com${path}`, { method }), {});
+  return { response, body: await response.json<any>() };
+}
+
+describe('Router', () => {
+  it('matches routes in order, with or without a trailing slash', async () => {
+    expect((await call('/api/products')).body).toEqual({ route: 'list' });
+    expect((await call('/api/products/')).body).toEqual({ route: 'list' });
+    expect((await call('/api/products/42')).body).toEqual({ route: 'one', params: { id: '42' } });
+  });
+
+  it('captures several params and decodes them', async () => {
+    const { body } = await call('/api/products/a%20b/reviews/7', 'POST');
+    expect(body).toEqual({ params: { id: 'a b', reviewId: '7' } });
+  });
+
+  it('does not let a param span path segments', async () => {
+    const { response } = await call('/api/products/1/2');
+    expect(response.status).toBe(404);
+  });
+
+  it('captures the rest of the path for a trailing *', async () => {
+    expect((await call('/api/files/docs/a.pdf')).body).toEqual({ params: { '*': 'docs/a.pdf' } });
+  });
+
+  it('treats regex characters in paths literally', async () => {
+    const router = createRouter({ auth, defaultAuth: 'public' }).get('/v1.0/items', 'public', () => new Response('ok'));
+    const response = await router.fetch(new Request('https://api.example.com/v1x0/items'), {});
+    expect(response.status).toBe(404);
+  });
+
+  it('answers malformed escapes with a JSON 400', async () => {
+    const { response, body } = await call('/api/products/%E0%A4');
+    expect(response.status).toBe(400);
+    expect(body).toEqual({ error: 'Bad Request' });
+  });
+
+  it('answers other methods on a known path with 405 and Allow', async () => {
+    const { response, body } = await call('/api/products/42', 'DELETE');
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('GET');
+    expect(body).toEqual({ error: 'Method not allowed' });
+  });
+
+  it('answers unknown paths with a JSON 404', async () => {
+    const { response, body } = await call('/api/unknown');
+    expect(response.status).toBe(404);
+    expect(body).toEqual({ error: 'Not Found' });
+  });
+
+  it('refuses authenticated routes without a token', async () => {
+    const { response } = await call('/api/me');
+    expect(response.status).toBe(401);
+  });
+
+  it('turns handler errors into a JSON 500', async () => {
+    const { response, body } = await call('/api/broken');
+    expect(response.status).toBe(500);
+    expect(body).toEqual({ error: 'Internal Server Error' });
+  });
+
+  it('reports the rate limit on allowed responses and refuses over the limit', async () => {
+    const router = createRouter({ auth, defaultAuth: 'public', rateLimiter: new RateLimiter(1, 60_000) })
+      .get('/api/ping', 'public', () => new Response('pong'));
+    const request = () => new Request('https://api.example.com/api/ping', { headers: { 'CF-Connecting-IP': '203.0.113.9' } });
+
+    const allowed = await router.fetch(request(), {});
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get('RateLimit-Limit')).toBe('1');
+    expect(allowed.headers.get('RateLimit-Remaining')).toBe('0');
+
+    const refused = await router.fetch(request(), {});
+    expect(refused.status).toBe(429);
+  });
+
+  it('lists its routes with their effective auth', () => {
+    const router = createRouter({ auth })
+      .get('/api/a', 'public', () => new Response())
+      .add({ method: ['PUT', 'PATCH'], path: '/api/b', handler: () => new Response() });
+    expect(router.routes()).toEqual([
+      { method: ['GET'], path: '/api/a', auth: 'public', description: undefined },
+      { method: ['PUT', 'PATCH'], path: '/api/b', auth: 'authenticated', description: undefined }
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { generateSecureState, verifyToken } from '../src/helpers/token-validation';
+
+const ISSUER = 'https://auth.example.com';
+const AUDIENCE = 'web-app';
+
+let signingKey: CryptoKey;
+let publicJwk: JsonWebKey;
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+}
+
+function encodeSegment(value: unknown): string {
+  return base64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+/**
+ * Sign an ES256 access token with the test key
+ */
+async function signToken(claims: Record<string, unknown>, kid = 'key-1'): Promise<string> {
+  const input = `${encodeSegment({ alg: 'ES256', kid, typ: 'JWT' })}.${encodeSegment({
+    sub: 'user:1',
+    mode: 'access',
+    iss: ISSUER,
+    aud: AUDIENCE,
+    exp: Math.floor(Date.now() / 1000) + 300,
+    ...claims
+  })}`;
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    signingKey,
+    new TextEncoder().encode(input)
+  );
+  return `${input}.${base64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Serve a JWKS from a URI unique to the test, so the module's key cache
+ * never carries keys between tests
+ */
+function serveJwks(keys: Record<string, unknown>[]): string {
+  const jwksUri = `${ISSUER}/jwks/${crypto.randomUUID()}.json`;
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+    const url = input instanceof Request ? input.url : input.toString();
+    return url === jwksUri ? Response.json({ keys }) : new Response('Not found', { status: 404 });
+  });
+  return jwksUri;
+}
+
+beforeAll(async () => {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  signingKey = pair.privateKey;
+  publicJwk = await crypto.subtle.exportKey('jwk', pair.publicKey) as JsonWebKey;
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('verifyToken', () => {
+  it('accepts a token signed by a published key for the audience', async () => {
+    const jwksUri = serveJwks([{ ...publicJwk, kid: 'key-1', alg: 'ES256' }]);
+    const result = await verifyToken(await signToken({}), { issuer: ISSUER, audience: AUDIENCE, jwksUri });
+    expect(result).toMatchObject({ valid: true, payload: { sub: 'user:1' } });
+  });
+
+  it('accepts any of several audiences, including an aud array', async () => {
+    const jwksUri = serveJwks([{ ...publicJwk, kid: 'key-1', alg: 'ES256' }]);
+    const token = await signToken({ aud: ['other-app', AUDIENCE] });
+    const result = await verifyToken(token, { issuer: ISSUER, audience: ['admin-app', AUDIENCE], jwksUri });
+    expect(result.valid).toBe(true);
+  });
+
+  it('rejects tokens issued to another client', async () => {
+    const jwksUri = serveJwks([{ ...publicJwk, kid: 'key-1', alg: 'ES256' }]);
+    const result = await verifyToken(await signToken({ aud: 'other-app' }), { issuer: ISSUER, audience: AUDIENCE, jwksUri });
+    expect(result).toEqual({ valid: false, error: 'Invalid token audience' });
+  });
+
+  it('rejects every token when no audience is configured', async () => {
+    const jwksUri = serveJwks([{ ...publicJwk, kid: 'key-1', alg: 'ES256' }]);
+    const result = await verifyToken(await signToken({}), { issuer: ISSUER, audience: [], jwksUri });
+    expect(result).toEqual({ valid: false, error: 'Invalid token audience' });
+  });
+
+  it('rejects tokens from another issuer', async () => {
+    const jwksUri = serveJwks([{ ...publicJwk, kid: 'key-1', alg: 'ES256' }]);
+    const token = await signToken({ iss: 'https://evil.example.com' });
+    const result = await verifyToken(token, { issuer: ISSUER, audience: AUDIENCE, jwksUri });
+    expect(result).toEqual({ valid: false, error: 'Invalid token issuer' });
+  });
+
+  it('rejects tampered tokens', async () => {
+    const jwksUri = serveJwks([{ ...publicJwk, kid: 'key-1', alg: 'ES256' }]);
+    const [header, , signature] = (await signToken({})).split('.');
+    const forged = `${header}.${encodeSegment({ sub: 'user:2', mode: 'access', iss: ISSUER, aud: AUDIENCE, exp: 9999999999 })}.${signature}`;
+    const result = await verifyToken(forged, { issuer: ISSUER, audience: AUDIENCE, jwksUri });
+    expect(result).toEqual({ valid: false, error: 'Invalid token signature' });
+  });
+
+  it('rejects expired tokens and refresh tokens', async () => {
+    const jwksUri = serveJwks([{ ...publicJwk, kid: 'key-1', alg: 'ES256' }]);
+    const expired = await signToken({ exp: Math.floor(Date.now() / 1000) - 60 });
+    expect(await verifyToken(expired, { issuer: ISSUER, audience: AUDIENCE, jwksUri }))
+      .toMatchObject({ valid: false, expired: true });
+
+    const refresh = await signToken({ mode: 'refresh' });
+    expect(await verifyToken(refresh, { issuer: ISSUER, audience: AUDIENCE, jwksUri }))
+      .toEqual({ valid: false, error: 'Not an access token' });
+  });
+
+  it('rejects tokens signed with an unpublished key', async () => {
+    const jwksUri = serveJwks([{ ...publicJwk, kid: 'key-1', alg: 'ES256' }]);
+    const result = await verifyToken(await signToken({}, 'key-2'), { issuer: ISSUER, audience: AUDIENCE, jwksUri });
+    expect(result).toEqual({ valid: false, error: 'Unknown signing key' });
+  });
+
+  it('rejects tokens signed with a key whose exp has passed', async () => {
+    const exp = Math.floor(Date.now() / 1000) - 1;
+    const jwksUri = serveJwks([{ ...publicJwk, kid: 'key-1', alg: 'ES256', exp }]);
+    const result = await verifyToken(await signToken({}), { issuer: ISSUER, audience: AUDIENCE, jwksUri });
+    expect(result).toEqual({ valid: false, error: 'Unknown signing key' });
+  });
+
+  it('stops accepting a cached key once its exp passes', async () => {
+    const exp = Math.floor(Date.now() / 1000) + 60;
+    const jwksUri = serveJwks([{ ...publicJwk, kid: 'key-1', alg: 'ES256', exp }]);
+    const token = await signToken({ exp: exp + 300 });
+    expect((await verifyToken(token, { issuer: ISSUER, audience: AUDIENCE, jwksUri })).valid).toBe(true);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime((exp + 1) * 1000);
+      expect(await verifyToken(token, { issuer: ISSUER, audience: AUDIENCE, jwksUri }))
+        .toEqual({ valid: false, error: 'Unknown signing key' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('generateSecureState', () => {
+  it('returns distinct base64url values of at least 16 random bytes', () => {
+    const values = new Set(Array.from({ length: 50 }, () => generateSecureState(8)));
+    expect(values.size).toBe(50);
+    for (const value of values) {
+      expect(value).toMatch(/^[A-Za-z0-9_-]{22,}$/);
+    }
+  });
+});
@@ -0,0 +1,22 @@
+import { defineWorkersConfig, readD1Migrations } from "@cloudflare/vitest-pool-workers/config";
+
+export default defineWorkersConfig(async () => {
+	// Applied to the test D1 database by test/apply-migrations.ts
+	const migrations = await readD1Migrations("./migrations");
+
+	return {
+		test: {
+			include: ["test/**/*.test.ts"],
+			setupFiles: ["./test/apply-migrations.ts"],
+			poolOptions: {
+				workers: {
+					singleWorker: true,
+					wrangler: { configPath: "./wrangler.json" },
+					miniflare: {
+						bindings: { TEST_MIGRATIONS: migrations },
+					},
+				},
+			},
+		},
+	};
+});
@@ -7,6 +7,26 @@ declare namespace Cloudflare {
 		AUTH_DB: D1Database;
 		GOOGLE_CLIENT_ID: string;
 		GOOGLE_CLIENT_SECRET: string;
+		GITHUB_CLIENT_ID: string;
+		GITHUB_CLIENT_SECRET: string;
+		MICROSOFT_CLIENT_ID: string;
+		MICROSOFT_CLIENT_SECRET: string;
+		MICROSOFT_TENANT: string;
+		APPLE_CLIENT_ID: string;
+		OIDC_ISSUER: string;
+		OIDC_CLIENT_ID: string;
+		ENVIRONMENT: string;
+		APP_NAME: string;
+		THEME: string;
+		DEMO_ROUTES: string;
+		EMAIL_PROVIDER: string;
+		EMAIL_FROM: string;
+		EMAIL_API_URL: string;
+		EMAIL_API_KEY: string;
+		DEV_OUTBOX: string;
+		CORS_ALLOWED_ORIGINS: string;
+		CORS_ADMIN_ORIGINS: string;
+		MFA_REQUIRED_ROLES: string;
 	}
 }
 interface Env extends Cloudflare.Env {}